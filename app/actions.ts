@@ -3,16 +3,26 @@
 import { createServerClient, type CookieOptions } from '@supabase/ssr'
 import { cookies } from 'next/headers'
 import PDFParser from 'pdf2json'
-import * as mammoth from 'mammoth'
-import * as Papa from 'papaparse'
 import Groq from "groq-sdk"
 import { listTools, callTool } from '@/lib/mcp'
-import { extractPDFText } from '@/lib/pdf-pipeline'
-import { vectorizeIncrementally, ChunkRecord } from '@/lib/vectorize-pipeline'
+import { CsvValue } from '@/lib/csv-pipeline'
+import { extractDocument, extractedContent } from '@/lib/extractors'
+import {
+    storeDocumentRows, loadDocumentRows, buildTabularQueryPrompt, TabularQuerySchema,
+    validateTabularQuery, runTabularQuery, formatTabularQuery, resultToMarkdown, TabularSource
+} from '@/lib/tabular-query'
+import { vectorizeIncrementally, ChunkRecord, DEFAULT_VECTORIZATION_CONFIG } from '@/lib/vectorize-pipeline'
 import { generatePodcastScript, synthesizePodcastAudio, generateStoryScript, synthesizeStoryAudio } from '@/lib/podcast'
 import { getAuthUrl, getTokens } from '@/lib/google_auth'
 import { listEmails, getEmailContent } from '@/lib/gmail'
 import { redirect } from 'next/navigation'
+import { supabaseAdmin, PROCESSING_BUCKET, DOCUMENT_FILES_BUCKET, SIGNED_URL_TTL_SECONDS } from '@/lib/supabase'
+import { loadReviewPages, lowConfidencePages, storeOCRPages } from '@/lib/ocr-review'
+import { saveIndexingSource, loadIndexingSource, pageCheckpoint, finishIndexing } from '@/lib/indexing-checkpoint'
+import { updateDocumentStatus } from '@/lib/document-status'
+import { sha256, textHash, findDuplicateDocument, duplicateMessage } from '@/lib/content-hash'
+import { prepareNewVersion, reuseEmbeddings, promoteVersion, promoteNewestRemaining } from '@/lib/document-versions'
+import { sourceLocation } from '@/lib/source-location'
 
 // ... existing imports
 
@@ -122,7 +132,8 @@ export async function ingestGmail() {
                 .insert({
                     name: `Email: ${emailContent.subject}`,
                     user_id: user.id,
-                    type: 'email'
+                    type: 'email',
+                    status: 'extracting'
                 })
                 .select().single()
 
@@ -130,20 +141,80 @@ export async function ingestGmail() {
                 console.error("Error saving email doc:", docError); continue;
             }
 
-            // 5. Chunk and Embed (Reusing existing logic logic would be better but simple insert here)
-            // We'll call the internal chunk logic or just save raw chunks.
-            // Simplified: Save one big chunk for now or reuse logic?
-            // Reusing processText logic would be ideal but it's bound to file upload.
-            // Let's just insert one chunk.
+            // 5. Extract and vectorize like an uploaded text file. Matched on the message id:
+            // a subject can end like a file name ("notes.md") and pick another extractor.
+            const extraction = await extractDocument(
+                Buffer.from(emailContent.fullText, 'utf-8'),
+                { name: `${emailContent.id}.txt`, type: 'text/plain' }
+            )
+            if (!extraction.success || !extraction.text.trim()) {
+                await updateDocumentStatus(supabase, doc.id, { status: 'failed', failureReason: extraction.success ? 'Email is empty' : extraction.userMessage })
+                continue
+            }
+
+            const content = extractedContent(extraction)
+            await supabase.from('documents').update({ metadata: extraction.metadata, text_hash: textHash(content) }).eq('id', doc.id)
+
+            const embedFn = async (content: string): Promise<number[] | null> => {
+                const { data, error } = await supabase.functions.invoke('embed', {
+                    body: { input: content }
+                })
+                if (error || !data?.embedding) {
+                    console.error('Embedding error:', error)
+                    return null
+                }
+                return data.embedding
+            }
 
-            const embedding = await generateEmbedding(emailContent.fullText)
+            const storeFn = async (chunk: ChunkRecord): Promise<boolean> => {
+                const { error } = await supabase
+                    .from('chunks')
+                    .upsert({
+                        chunk_id: chunk.chunkId,
+                        document_id: chunk.documentId,
+                        content: chunk.content,
+                        embedding: chunk.embedding,
+                        metadata: {
+                            ...chunk.metadata,
+                            page: chunk.page,
+                            chunkIndex: chunk.chunkIndex,
+                            source: chunk.source
+                        },
+                        chunk_index: chunk.chunkIndex
+                    }, { onConflict: 'chunk_id' })
+
+                if (error) {
+                    console.error('Store error:', error)
+                    return false
+                }
+                return true
+            }
 
-            await supabase.from('chunks').insert({
-                document_id: doc.id,
-                content: emailContent.fullText,
-                chunk_index: 0,
-                embedding
+            const indexingSource = await saveIndexingSource(supabase, supabaseAdmin, user.id, doc.id, {
+                content,
+                source: extraction.source,
+                chunkingStrategy: extraction.chunkingStrategy
             })
+            await updateDocumentStatus(supabase, doc.id, { status: 'indexing' })
+
+            const result = await vectorizeIncrementally(
+                content,
+                doc.id,
+                extraction.source,
+                embedFn,
+                storeFn,
+                extraction.chunkingStrategy ? { ...DEFAULT_VECTORIZATION_CONFIG, chunkingStrategy: extraction.chunkingStrategy } : undefined,
+                undefined,
+                undefined,
+                { onPageComplete: pageCheckpoint(supabase, doc.id) }
+            )
+
+            await finishIndexing(supabase, supabaseAdmin, doc.id, result, indexingSource)
+
+            if (!result.success) {
+                console.error(`Error indexing email ${emailContent.id}:`, result.failureReason)
+                continue
+            }
 
             count++
         }
@@ -331,71 +402,11 @@ async function createClient() {
     )
 }
 
-async function generateEmbedding(input: string) {
+export async function processFile(formData: FormData) {
     const supabase = await createClient()
-    const { data, error } = await supabase.functions.invoke('embed', {
-        body: { input }
-    })
-
-    if (error) {
-        console.error('Embedding API Error:', error)
-        throw new Error(`Embedding failed: ${error.message}`)
-    }
-
-    if (!data || !data.embedding) {
-        throw new Error('Embedding API returned no data')
-    }
-
-    return data.embedding
-}
-
-async function extractText(file: File, buffer: Buffer): Promise<string> {
-    const type = file.type
-    const name = file.name
-
-    if (type === 'application/pdf') {
-        // Production PDF Pipeline:
-        // - Guardrails (size, pages, timeout)
-        // - Classification (TEXT_BASED / SCANNED / MIXED / ENCRYPTED / CORRUPTED)
-        // - Page-batched extraction
-        // - Concurrency control (max 2)
-        // - User-facing messages (no stack traces)
-
-        console.log(`[PDF] Starting: ${file.name} (${(buffer.length / 1024 / 1024).toFixed(2)}MB)`);
-
-        const result = await extractPDFText(buffer);
-
-        if (!result.success) {
-            // Use user-facing message, never expose internals
-            throw new Error(result.userMessage);
-        }
+    let documentId: string | undefined
 
-        console.log(`[PDF] Complete: ${result.text.length} chars, ${result.pageCount} pages, ${result.processingTimeMs}ms, source: ${result.source}`);
-        return result.text;
-    }
-
-    if (type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || name.endsWith('.docx')) {
-        const result = await mammoth.extractRawText({ buffer })
-        return result.value
-    }
-
-    if (type === 'text/csv' || name.endsWith('.csv')) {
-        const text = buffer.toString('utf-8')
-        const result = Papa.parse(text, { header: true })
-        return JSON.stringify(result.data, null, 2)
-    }
-
-    if (type === 'application/json' || name.endsWith('.json')) {
-        return buffer.toString('utf-8')
-    }
-
-    // Fallback for text/md/code
-    return buffer.toString('utf-8')
-}
-
-export async function processFile(formData: FormData) {
     try {
-        const supabase = await createClient()
 
         // 1. Check Authentication
         const { data: { user }, error: authError } = await supabase.auth.getUser()
@@ -405,24 +416,35 @@ export async function processFile(formData: FormData) {
 
         const file = formData.get('file') as File
         if (!file) throw new Error('No file uploaded')
+        const password = (formData.get('password') as string | null) || undefined
+        const allowDuplicate = formData.get('allowDuplicate') === 'true'
+        const versionOf = (formData.get('versionOf') as string | null) || undefined
 
         console.log(`Processing file: ${file.name} (${file.type}) for User: ${user.id}`)
 
         const arrayBuffer = await file.arrayBuffer()
         const buffer = Buffer.from(arrayBuffer)
-        const text = await extractText(file, buffer)
+        const fileHash = sha256(buffer)
 
-        if (!text || text.trim().length === 0) {
-            throw new Error('Extracted text is empty')
+        // Same bytes already uploaded: point at the existing document instead
+        const fileDuplicate = allowDuplicate ? null : await findDuplicateDocument(supabase, user.id, { fileHash })
+        if (fileDuplicate) {
+            return { success: false, error: duplicateMessage(fileDuplicate), duplicate: fileDuplicate }
         }
 
-        // 2. Create Document Record
+        // New version of an existing document: unchanged chunks reuse its embeddings
+        const version = versionOf ? await prepareNewVersion(supabase, user.id, versionOf) : undefined
+
+        // 2. Create Document Record (status tracks extraction and indexing)
         const { data: doc, error: docError } = await supabase
             .from('documents')
             .insert({
                 name: file.name,
                 type: file.type,
-                user_id: user.id
+                user_id: user.id,
+                status: 'extracting',
+                file_hash: fileHash,
+                ...version?.fields
             })
             .select()
             .single()
@@ -434,6 +456,51 @@ export async function processFile(formData: FormData) {
             }
             throw new Error(`Database Error: ${docError.message}`)
         }
+        documentId = doc.id
+
+        const extraction = await extractDocument(buffer, file, { password })
+        if (!extraction.success) {
+            // User-facing message, never internals
+            throw new Error(extraction.userMessage)
+        }
+
+        const content = extractedContent(extraction)
+        const { rows, chunkingStrategy, source } = extraction
+        const ocrPages = extraction.pages.filter(p => p.source === 'ocr')
+        let metadata = extraction.metadata
+
+        if (!extraction.text || extraction.text.trim().length === 0) {
+            throw new Error('Extracted text is empty')
+        }
+
+        // Same text under different bytes (re-exported or re-scanned)
+        const contentHash = textHash(content)
+        const textDuplicate = allowDuplicate ? null : await findDuplicateDocument(supabase, user.id, { textHash: contentHash })
+        if (textDuplicate) {
+            await supabase.from('documents').delete().eq('id', doc.id)
+            return { success: false, error: duplicateMessage(textDuplicate), duplicate: textDuplicate }
+        }
+
+        // Flag OCR pages that need review in the file list
+        const reviewPages = lowConfidencePages(ocrPages)
+        if (reviewPages.length > 0) {
+            metadata = { ...metadata, lowConfidencePages: reviewPages }
+        }
+
+        await supabase.from('documents').update({ metadata, text_hash: contentHash }).eq('id', doc.id)
+
+        // 2b. Keep parsed rows for structured queries (CSV)
+        if (rows) {
+            await storeDocumentRows(supabase, doc.id, rows)
+        }
+
+        // 2c. Keep OCR text, confidence and previews of doubtful pages for review
+        if (ocrPages.length > 0) {
+            await storeOCRPages(supabase, doc.id, ocrPages, {
+                client: supabaseAdmin,
+                pathPrefix: `${user.id}/ocr-previews/${doc.id}`
+            })
+        }
 
         // 3. Incremental Vectorization
         // - Chunks per page (not globally)
@@ -441,8 +508,6 @@ export async function processFile(formData: FormData) {
         // - Stores incrementally
         // - Enables crash recovery
 
-        const source = file.type === 'application/pdf' ? 'pdf2json' : 'pdf2json';
-
         // Embed function: calls Supabase edge function
         const embedFn = async (content: string): Promise<number[] | null> => {
             const { data, error } = await supabase.functions.invoke('embed', {
@@ -459,17 +524,19 @@ export async function processFile(formData: FormData) {
         const storeFn = async (chunk: ChunkRecord): Promise<boolean> => {
             const { error } = await supabase
                 .from('chunks')
-                .insert({
+                .upsert({
+                    chunk_id: chunk.chunkId,
                     document_id: chunk.documentId,
                     content: chunk.content,
                     embedding: chunk.embedding,
                     metadata: {
+                        ...chunk.metadata,
                         page: chunk.page,
                         chunkIndex: chunk.chunkIndex,
                         source: chunk.source
                     },
                     chunk_index: chunk.chunkIndex
-                });
+                }, { onConflict: 'chunk_id' });
 
             if (error) {
                 console.error('Store error:', error);
@@ -478,23 +545,45 @@ export async function processFile(formData: FormData) {
             return true;
         };
 
+        // Keep the extracted text so an interrupted indexing run can be resumed
+        const indexingSource = await saveIndexingSource(supabase, supabaseAdmin, user.id, doc.id, {
+            content,
+            source,
+            chunkingStrategy
+        })
+        await updateDocumentStatus(supabase, doc.id, { status: 'indexing' })
+
         const result = await vectorizeIncrementally(
-            text,
+            content,
             doc.id,
-            source as 'pdf2json' | 'ocr' | 'hybrid',
-            embedFn,
-            storeFn
+            source,
+            version ? reuseEmbeddings(embedFn, version.embeddings) : embedFn,
+            storeFn,
+            chunkingStrategy ? { ...DEFAULT_VECTORIZATION_CONFIG, chunkingStrategy } : undefined,
+            undefined,
+            undefined,
+            { onPageComplete: pageCheckpoint(supabase, doc.id) }
         );
 
+        const outcome = await finishIndexing(supabase, supabaseAdmin, doc.id, result, indexingSource)
+
         if (!result.success) {
             throw new Error(result.failureReason || 'Vectorization failed');
         }
 
-        return { success: true, count: result.totalChunks, documentId: doc.id }
+        if (version) {
+            await promoteVersion(supabase, doc.id, version.fields.version_group)
+        }
+
+        return { success: true, count: result.totalChunks, documentId: doc.id, status: outcome.status }
 
     } catch (error: unknown) {
         const err = error as Error;
         console.error('Processing failed:', err);
+        // Keep the failure visible in the document list
+        if (documentId) {
+            await updateDocumentStatus(supabase, documentId, { status: 'failed', failureReason: err.message })
+        }
         return { success: false, error: err.message }
     }
 }
@@ -520,14 +609,38 @@ export async function deleteDocument(documentId: string) {
         // We'd need to know the filename. Skipped for now or could query podcasts bucket.
 
         // 3. Delete Document Record
-        const { error: docError } = await supabase
+        const { data: deleted, error: docError } = await supabase
             .from('documents')
             .delete()
             .eq('id', documentId)
             .eq('user_id', user.id) // Security check
+            .select('metadata, indexing_source, version_group, is_latest')
 
         if (docError) throw new Error(docError.message)
 
+        // Deleting the latest version hands "latest" to the newest remaining one
+        const removed = deleted?.[0]
+        if (removed?.is_latest) {
+            await promoteNewestRemaining(supabase, removed.version_group || documentId)
+        }
+
+        // 4. Delete the stored original (uploaded images), OCR page previews and unfinished indexing text
+        const previewPrefix = `${user.id}/ocr-previews/${documentId}`
+        const { data: previews } = await supabaseAdmin.storage.from(DOCUMENT_FILES_BUCKET).list(previewPrefix)
+        const storedFiles = [
+            removed?.metadata?.storagePath,
+            ...(previews || []).map(f => `${previewPrefix}/${f.name}`)
+        ].filter(Boolean)
+
+        if (storedFiles.length > 0) {
+            const { error: storageError } = await supabaseAdmin.storage.from(DOCUMENT_FILES_BUCKET).remove(storedFiles)
+            if (storageError) console.error("Error deleting stored files:", storageError)
+        }
+        if (removed?.indexing_source) {
+            const { error: sourceError } = await supabaseAdmin.storage.from(PROCESSING_BUCKET).remove([removed.indexing_source])
+            if (sourceError) console.error("Error deleting indexing source:", sourceError)
+        }
+
         return { success: true }
     } catch (error: any) {
         console.error("Delete failed:", error)
@@ -535,6 +648,208 @@ export async function deleteDocument(documentId: string) {
     }
 }
 
+// Continue indexing a document that stopped part-way, from the page after its last checkpoint
+export async function resumeIndexing(documentId: string) {
+    try {
+        const supabase = await createClient()
+        const { data: { user } } = await supabase.auth.getUser()
+        if (!user) throw new Error('Unauthorized')
+
+        const { data: doc, error: docError } = await supabase
+            .from('documents')
+            .select('id, last_indexed_page, indexing_source, version_group, is_latest')
+            .eq('id', documentId)
+            .eq('user_id', user.id) // Security check
+            .single()
+
+        if (docError || !doc) throw new Error('Document not found')
+        if (!doc.indexing_source) throw new Error('Document is already fully indexed')
+
+        const indexingSource = await loadIndexingSource(supabaseAdmin, doc.indexing_source)
+        await updateDocumentStatus(supabase, documentId, { status: 'indexing', failureReason: null })
+
+        // Pages after the checkpoint are indexed again from scratch: drop chunks a
+        // failed run left there, so they are neither counted twice nor left stale
+        const afterPage = doc.last_indexed_page ?? 0
+        const { error: deleteError } = await supabase
+            .from('chunks')
+            .delete()
+            .eq('document_id', documentId)
+            .gt('metadata->page', afterPage)
+        if (deleteError) throw new Error(deleteError.message)
+
+        // Chunks already stored count against the per-document budget
+        const { count } = await supabase
+            .from('chunks')
+            .select('id', { count: 'exact', head: true })
+            .eq('document_id', documentId)
+
+        const embedFn = async (content: string): Promise<number[] | null> => {
+            const { data, error } = await supabase.functions.invoke('embed', {
+                body: { input: content }
+            })
+            return error || !data?.embedding ? null : data.embedding
+        }
+
+        const storeFn = async (chunk: ChunkRecord): Promise<boolean> => {
+            const { error } = await supabase.from('chunks').upsert({
+                chunk_id: chunk.chunkId,
+                document_id: chunk.documentId,
+                content: chunk.content,
+                embedding: chunk.embedding,
+                metadata: {
+                    ...chunk.metadata,
+                    page: chunk.page,
+                    chunkIndex: chunk.chunkIndex,
+                    source: chunk.source,
+                    documentName: chunk.documentName
+                },
+                chunk_index: chunk.chunkIndex
+            }, { onConflict: 'chunk_id' })
+            return !error
+        }
+
+        const result = await vectorizeIncrementally(
+            indexingSource.content,
+            documentId,
+            indexingSource.source,
+            embedFn,
+            storeFn,
+            indexingSource.chunkingStrategy ? { ...DEFAULT_VECTORIZATION_CONFIG, chunkingStrategy: indexingSource.chunkingStrategy } : undefined,
+            undefined,
+            indexingSource.documentName,
+            {
+                afterPage,
+                chunksStored: count ?? 0,
+                onPageComplete: pageCheckpoint(supabase, documentId)
+            }
+        )
+
+        const outcome = await finishIndexing(supabase, supabaseAdmin, documentId, result, doc.indexing_source)
+        if (!result.success) throw new Error(result.failureReason || 'Vectorization failed')
+
+        // A new version that stopped part-way becomes latest once indexed
+        if (doc.version_group && !doc.is_latest) {
+            await promoteVersion(supabase, documentId, doc.version_group)
+        }
+
+        return { success: true, count: result.totalChunks, status: outcome.status }
+    } catch (error: unknown) {
+        const err = error as Error
+        console.error("Resume indexing failed:", err)
+        return { success: false, error: err.message }
+    }
+}
+
+// --- OCR REVIEW ACTIONS ---
+
+// Low-confidence pages of an OCR'd document, with preview and recognized text
+export async function getOCRReviewPages(documentId: string) {
+    try {
+        const supabase = await createClient()
+        const { data: { user } } = await supabase.auth.getUser()
+        if (!user) throw new Error('Unauthorized')
+
+        return { success: true, pages: await loadReviewPages(supabase, supabaseAdmin, user.id, documentId) }
+    } catch (error: unknown) {
+        const err = error as Error
+        console.error("Loading OCR review pages failed:", err)
+        return { success: false, error: err.message }
+    }
+}
+
+// Replace a page's OCR text with the user's correction and re-embed just that page
+export async function correctOCRPage(documentId: string, pageNumber: number, text: string) {
+    try {
+        const supabase = await createClient()
+        const { data: { user } } = await supabase.auth.getUser()
+        if (!user) throw new Error('Unauthorized')
+
+        if (text.trim().length < 10) throw new Error('Corrected text is too short')
+
+        const { data: doc, error: docError } = await supabase
+            .from('documents')
+            .select('id, name, metadata')
+            .eq('id', documentId)
+            .eq('user_id', user.id) // Security check
+            .single()
+
+        if (docError || !doc) throw new Error('Document not found')
+
+        // 1. Save the corrected text - only an OCR'd page that exists can be corrected
+        const { data: updatedPages, error: pageError } = await supabase
+            .from('document_pages')
+            .update({ text, corrected: true, updated_at: new Date().toISOString() })
+            .eq('document_id', documentId)
+            .eq('page_number', pageNumber)
+            .select('page_number')
+
+        if (pageError) throw new Error(pageError.message)
+        if (!updatedPages || updatedPages.length === 0) {
+            throw new Error(`Page ${pageNumber} has no OCR text to correct`)
+        }
+
+        // 2. Replace the page's chunks
+        const { error: chunkError } = await supabase
+            .from('chunks')
+            .delete()
+            .eq('document_id', documentId)
+            .eq('metadata->>page', String(pageNumber))
+
+        if (chunkError) throw new Error(chunkError.message)
+
+        const embedFn = async (content: string): Promise<number[] | null> => {
+            const { data, error } = await supabase.functions.invoke('embed', {
+                body: { input: content }
+            })
+            return error || !data?.embedding ? null : data.embedding
+        }
+
+        const storeFn = async (chunk: ChunkRecord): Promise<boolean> => {
+            const { error } = await supabase.from('chunks').upsert({
+                chunk_id: chunk.chunkId,
+                document_id: chunk.documentId,
+                content: chunk.content,
+                embedding: chunk.embedding,
+                metadata: {
+                    ...chunk.metadata,
+                    page: chunk.page,
+                    chunkIndex: chunk.chunkIndex,
+                    source: chunk.source,
+                    documentName: doc.name
+                },
+                chunk_index: chunk.chunkIndex
+            }, { onConflict: 'chunk_id' })
+            return !error
+        }
+
+        // Document name is set on the chunks directly: vectorizeIncrementally would
+        // otherwise prefix it to this page as if it were the first one
+        const result = await vectorizeIncrementally(
+            [{ pageNumber, text, source: 'ocr', metadata: { ocrCorrected: true } }],
+            documentId,
+            'ocr',
+            embedFn,
+            storeFn
+        )
+
+        if (!result.success) throw new Error(result.failureReason || 'Vectorization failed')
+
+        // 3. Page no longer needs review
+        const remaining = ((doc.metadata?.lowConfidencePages as number[] | undefined) || []).filter(p => p !== pageNumber)
+        await supabase
+            .from('documents')
+            .update({ metadata: { ...doc.metadata, lowConfidencePages: remaining } })
+            .eq('id', documentId)
+
+        return { success: true, chunks: result.totalChunks }
+    } catch (error: unknown) {
+        const err = error as Error
+        console.error("OCR correction failed:", err)
+        return { success: false, error: err.message }
+    }
+}
+
 export async function getUserDocuments() {
     try {
         const supabase = await createClient()
@@ -552,7 +867,22 @@ export async function getUserDocuments() {
             return []
         }
 
-        return data
+        // Stored originals (uploaded images) are private: link them through short-lived signed URLs.
+        // Only the user's own folder - metadata alone must not grant access to other files.
+        const storagePaths: string[] = data
+            .map(d => d.metadata?.storagePath)
+            .filter((p): p is string => typeof p === 'string' && p.startsWith(`${user.id}/`))
+        if (storagePaths.length === 0) return data
+
+        const { data: signed, error: signError } = await supabaseAdmin.storage
+            .from(DOCUMENT_FILES_BUCKET)
+            .createSignedUrls(storagePaths, SIGNED_URL_TTL_SECONDS)
+        if (signError) console.error('Error signing document files:', signError)
+
+        const signedUrls = new Map((signed || []).map(s => [s.path, s.signedUrl]))
+        return data.map(d => d.metadata?.storagePath
+            ? { ...d, url: signedUrls.get(d.metadata.storagePath) ?? null }
+            : d)
     } catch (error) {
         console.error('Failed to get user docs:', error)
         return []
@@ -560,7 +890,102 @@ export async function getUserDocuments() {
 }
 
 // Update type definition
-export async function chat(message: string, history: Array<{ role: 'user' | 'assistant', content: string }> = []) {
+// --- STRUCTURED (TABULAR) QUERIES ---
+
+export interface StructuredAnswer {
+    documentId: string
+    documentName: string
+    query: string           // SQL-like rendering of the executed query (display only)
+    columns: string[]
+    rows: CsvValue[][]
+    rowsScanned: number
+    rowsMatched: number
+    truncated: boolean
+}
+
+// Aggregate questions over tabular documents: the model writes a restricted query,
+// which is validated and run in-process over the stored rows. Null when not applicable:
+// only chats over selected documents that include a (latest) table with stored rows
+// pay for the extra model call.
+async function answerFromTables(
+    groq: Groq,
+    supabase: Awaited<ReturnType<typeof createClient>>,
+    message: string,
+    documentIds: string[]
+): Promise<StructuredAnswer | null> {
+    if (documentIds.length === 0) return null
+
+    const { data: docs } = await supabase
+        .from('documents')
+        .select('id, name, metadata')
+        .in('id', documentIds)
+        .eq('is_latest', true)
+        .not('metadata->schema', 'is', null)
+
+    const tables = (docs || []).filter(d => d.metadata?.schema)
+    if (tables.length === 0) return null
+
+    // Storing rows can fail after the schema was saved - those tables can't answer
+    const { data: stored } = await supabase
+        .from('document_rows')
+        .select('document_id')
+        .in('document_id', tables.map(d => d.id))
+        .eq('row_index', 1)
+    const withRows = new Set((stored || []).map(r => r.document_id))
+
+    const sources: TabularSource[] = tables
+        .filter(d => withRows.has(d.id))
+        .map(d => ({ documentId: d.id, name: d.name, schema: d.metadata.schema }))
+
+    if (sources.length === 0) return null
+
+    const completion = await groq.chat.completions.create({
+        messages: [
+            { role: "system", content: buildTabularQueryPrompt(sources) },
+            { role: "user", content: message }
+        ],
+        model: "llama-3.3-70b-versatile",
+        temperature: 0,
+        response_format: { type: "json_object" }
+    })
+
+    let candidate: unknown
+    try {
+        candidate = JSON.parse(completion.choices[0]?.message?.content || '{}').query
+    } catch {
+        return null
+    }
+    if (!candidate) return null
+
+    const parsed = TabularQuerySchema.safeParse(candidate)
+    if (!parsed.success) {
+        console.warn('Tabular query rejected (shape):', parsed.error.message)
+        return null
+    }
+
+    const source = sources.find(s => s.documentId === parsed.data.documentId)
+    if (!source) return null
+
+    const problems = validateTabularQuery(parsed.data, source.schema)
+    if (problems.length > 0) {
+        console.warn('Tabular query rejected:', problems)
+        return null
+    }
+
+    const rows = await loadDocumentRows(supabase, source.documentId)
+    const result = runTabularQuery(rows, parsed.data, source.schema)
+    const query = formatTabularQuery(parsed.data, source.name)
+    console.log(`Tabular query on ${source.name}: ${result.rowsMatched}/${result.rowsScanned} rows matched\n${query}`)
+
+    return { documentId: source.documentId, documentName: source.name, query, ...result }
+}
+
+export async function chat(
+    message: string,
+    history: Array<{ role: 'user' | 'assistant', content: string }> = [],
+    documentIds: string[] = [],
+    language?: string // Restrict retrieval to documents in this OCR language (e.g. 'deu')
+) {
     try {
         const apiKey = process.env.GROQ_API_KEY
         if (!apiKey) {
@@ -599,7 +1024,9 @@ export async function chat(message: string, history: Array<{ role: 'user' | 'ass
         const { data: initialDocs } = await supabase.rpc('match_documents', {
             query_embedding: embedData.embedding,
             match_threshold: 0.60,
-            match_count: 5
+            match_count: 5,
+            filter_language: language || null,
+            include_document_ids: documentIds // Selected older versions are searched too
         })
 
         if (initialDocs) documents = initialDocs
@@ -609,7 +1036,9 @@ export async function chat(message: string, history: Array<{ role: 'user' | 'ass
             const { data: retryDocs } = await supabase.rpc('match_documents', {
                 query_embedding: embedData.embedding,
                 match_threshold: 0.50, // Loosen slightly
-                match_count: 5
+                match_count: 5,
+                filter_language: language || null,
+                include_document_ids: documentIds
             })
             if (retryDocs) documents = retryDocs || []
         }
@@ -621,14 +1050,31 @@ export async function chat(message: string, history: Array<{ role: 'user' | 'ass
         if (documents) {
             documents.sort((a: any, b: any) => {
                 if (a.document_id !== b.document_id) return a.document_id.localeCompare(b.document_id)
-                return (a.chunk_index || 0) - (b.chunk_index || 0)
+                const pageDiff = (a.metadata?.page || 0) - (b.metadata?.page || 0)
+                if (pageDiff !== 0) return pageDiff
+                return (a.metadata?.chunkIndex || 0) - (b.metadata?.chunkIndex || 0)
             })
         }
 
         let context = ""
         for (const doc of documents || []) {
             if (context.length + doc.content.length > 3500) break
-            context += `[Source: Local Doc (Match ${(doc.similarity * 100).toFixed(0)}%)]\n${doc.content}\n\n`
+            const location = sourceLocation(doc.metadata)
+            const pageLabel = location ? `, ${location}` : ''
+            context += `[Source: Local Doc${pageLabel} (Match ${(doc.similarity * 100).toFixed(0)}%)]\n${doc.content}\n\n`
+        }
+
+        // 3b. Structured path: computed over all rows of the selected tabular documents
+        let structured: StructuredAnswer | null = null
+        try {
+            structured = await answerFromTables(groq, supabase, message, documentIds)
+        } catch (e) {
+            console.error("Structured query failed:", e)
+        }
+
+        if (structured) {
+            const scope = `${structured.rowsMatched} of ${structured.rowsScanned} rows matched${structured.truncated ? ', table truncated' : ''}`
+            context = `[Source: Computed Table from ${structured.documentName} (${scope})]\nQuery:\n${structured.query}\n\n${resultToMarkdown(structured)}\n\n${context}`
         }
 
         // ---------------------------------------------------------
@@ -698,7 +1144,8 @@ ${context}
             return {
                 success: true,
                 message: "I verified the documents provided, but they do not contain the answer. (Reason: No relevant local docs and no search action triggered).",
-                sources: documents
+                sources: documents,
+                structured
             }
         }
 
@@ -715,7 +1162,8 @@ GOALS:
 RULES:
 - Use ONLY the provided context (Local Docs + Web Search Results).
 - If using Web Search, cite it as "According to online sources..." or similar.
-- If using Local Docs, cite as "According to your documents...".
+- If using Local Docs, cite as "According to your documents..." and include the page number or record path when the source lists one (e.g. "page 14", "record $.orders[42]").
+- If a Computed Table is provided, take figures from it exactly (it was computed over every row of the file) and don't recompute them from the excerpts.
 - Prefer information from higher match scores.
 
 CONTEXT:
@@ -743,7 +1191,8 @@ ${plan}
         return {
             success: true,
             message: finalCompletion.choices[0]?.message?.content || "No response generated.",
-            sources: documents
+            sources: documents,
+            structured
         }
 
     } catch (error: any) { // eslint-disable-line @typescript-eslint/no-explicit-any
@@ -0,0 +1,97 @@
+/**
+ * Async OCR Job Status API
+ *
+ * GET: job status and page progress (polled by the sandbox)
+ * DELETE: cancel a queued or running job
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { getOCRJob, cancelOCRJob, startOCRWorker } from '@/lib/ocr-jobs';
+
+async function createClient() {
+    const cookieStore = await cookies();
+    return createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+            cookies: {
+                getAll: () => cookieStore.getAll(),
+                setAll: (cookiesToSet) => {
+                    cookiesToSet.forEach(({ name, value, options }) =>
+                        cookieStore.set(name, value, options)
+                    );
+                },
+            },
+        }
+    );
+}
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const supabase = await createClient();
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const job = await getOCRJob(id, user.id);
+
+        if (!job) {
+            return NextResponse.json({ success: false, error: 'Job not found' }, { status: 404 });
+        }
+
+        // Queued work may be left over from a restarted server - make sure a worker is running
+        if (job.status === 'queued' || job.status === 'running') {
+            startOCRWorker();
+        }
+
+        return NextResponse.json({
+            success: true,
+            jobId: job.id,
+            status: job.status,
+            pageCount: job.page_count,
+            pagesCompleted: job.pages_completed,
+            attempts: job.attempts,
+            error: job.last_error,
+            documentId: job.document_id
+        });
+
+    } catch (e) {
+        const err = e as Error;
+        return NextResponse.json({ success: false, error: err.message }, { status: 500 });
+    }
+}
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const supabase = await createClient();
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const cancelled = await cancelOCRJob(id, user.id);
+
+        if (!cancelled) {
+            return NextResponse.json({ success: false, error: 'Job is not running or does not exist' }, { status: 409 });
+        }
+
+        return NextResponse.json({ success: true, status: 'cancelled' });
+
+    } catch (e) {
+        const err = e as Error;
+        return NextResponse.json({ success: false, error: err.message }, { status: 500 });
+    }
+}
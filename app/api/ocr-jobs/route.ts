@@ -0,0 +1,86 @@
+/**
+ * Async OCR Job API
+ *
+ * POST: enqueue a scanned PDF that is too large for sync / browser OCR.
+ * The worker runs in the background; poll /api/ocr-jobs/[id] for status.
+ * Encrypted PDFs come with their password, which reaches the worker in memory
+ * only (see ocr-jobs.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { extractPDFText, DEFAULT_CONFIG } from '@/lib/pdf-pipeline';
+import { createOCRJob, startOCRWorker } from '@/lib/ocr-jobs';
+import { normalizeOCRLanguage } from '@/lib/ocr-languages';
+
+async function createClient() {
+    const cookieStore = await cookies();
+    return createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+            cookies: {
+                getAll: () => cookieStore.getAll(),
+                setAll: (cookiesToSet) => {
+                    cookiesToSet.forEach(({ name, value, options }) =>
+                        cookieStore.set(name, value, options)
+                    );
+                },
+            },
+        }
+    );
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const supabase = await createClient();
+
+        // Auth check
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const formData = await request.formData();
+        const file = formData.get('file') as File;
+        const ocrLanguage = normalizeOCRLanguage(formData.get('ocrLanguage') as string | null);
+        const password = (formData.get('password') as string | null) || undefined; // Encrypted PDFs only, never stored
+
+        if (!file) {
+            return NextResponse.json({ success: false, error: 'No file' }, { status: 400 });
+        }
+
+        const buffer = Buffer.from(await file.arrayBuffer());
+
+        // Classify first (OCR disabled) - only scanned PDFs within the async limit are queued
+        const result = await extractPDFText(buffer, { ...DEFAULT_CONFIG, ocrEnabled: false, password });
+
+        if (!result.requiresOCR) {
+            return NextResponse.json({
+                success: false,
+                error: result.success ? 'This PDF has extractable text and does not need OCR.' : result.userMessage
+            }, { status: 400 });
+        }
+
+        if (result.pageCount > DEFAULT_CONFIG.maxPagesScannedAsync) {
+            return NextResponse.json({ success: false, error: result.userMessage }, { status: 400 });
+        }
+
+        const job = await createOCRJob(user.id, file.name, buffer, result.pageCount, ocrLanguage, password);
+        startOCRWorker();
+
+        return NextResponse.json({
+            success: true,
+            jobId: job.id,
+            status: job.status,
+            pageCount: job.page_count,
+            ocrEstimate: result.ocrEstimate
+        });
+
+    } catch (e) {
+        const err = e as Error;
+        console.error('[OCRJobs API] Error:', err);
+        return NextResponse.json({ success: false, error: err.message }, { status: 500 });
+    }
+}
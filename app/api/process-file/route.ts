@@ -1,18 +1,33 @@
 /**
  * Background File Processing API
- * 
+ *
  * Uses streaming response to return immediately while processing continues.
  * This prevents blocking the server for other requests (like chat).
+ *
+ * ZIP archives are expanded server-side: one document per entry, grouped under
+ * the archive name, with per-entry progress on the same stream.
+ *
+ * Instead of a file, a `url` can be sent: the server fetches it (private-network
+ * guard, size and time limits) and ingests the response like an upload.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
-import { extractPDFText, DEFAULT_CONFIG } from '@/lib/pdf-pipeline';
-import { vectorizeIncrementally, ChunkRecord } from '@/lib/vectorize-pipeline';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { extractDocument, extractedContent, isImageFile, ExtractorInput } from '@/lib/extractors';
+import { openZip, isZipFile } from '@/lib/zip-pipeline';
+import { fetchUrl } from '@/lib/url-pipeline';
+import { normalizeOCRLanguage } from '@/lib/ocr-languages';
+import { lowConfidencePages, storeOCRPages } from '@/lib/ocr-review';
+import { saveIndexingSource, pageCheckpoint, finishIndexing } from '@/lib/indexing-checkpoint';
+import { updateDocumentStatus } from '@/lib/document-status';
+import { sha256, textHash, findDuplicateDocument, duplicateMessage } from '@/lib/content-hash';
+import { prepareNewVersion, reuseEmbeddings, promoteVersion } from '@/lib/document-versions';
+import { supabaseAdmin, DOCUMENT_FILES_BUCKET } from '@/lib/supabase';
+import { storeDocumentRows } from '@/lib/tabular-query';
+import { vectorizeIncrementally, ChunkRecord, DEFAULT_VECTORIZATION_CONFIG } from '@/lib/vectorize-pipeline';
 import PDFParser from 'pdf2json';
-import * as mammoth from 'mammoth';
-import * as Papa from 'papaparse';
 
 async function createClient() {
     const cookieStore = await cookies();
@@ -32,31 +47,338 @@ async function createClient() {
     );
 }
 
-// Extract text based on file type
-async function extractText(file: File, buffer: Buffer): Promise<string> {
-    const type = file.type;
-    const name = file.name;
+// SSE payload: { status, ...details }
+type ProcessEvent = { status: string } & Record<string, unknown>;
 
-    if (type === 'application/pdf') {
-        const result = await extractPDFText(buffer);
-        if (!result.success) {
-            throw new Error(result.userMessage);
+interface IngestOptions {
+    ocrEnabled: boolean;
+    ocrLanguage: string;
+    password?: string;
+    allowDuplicate: boolean;
+    versionOf?: string;
+    archiveName?: string;       // Entries of an uploaded .zip
+    sourceUrl?: string;         // Fetched from this URL (stored as documents.url)
+}
+
+/**
+ * Extract, store and vectorize one file as one document.
+ * Progress goes to `send`; the returned event is the outcome
+ * (complete, duplicate, requires_password, requires_ocr or error).
+ */
+async function ingestFile(
+    supabase: SupabaseClient,
+    userId: string,
+    input: ExtractorInput,
+    buffer: Buffer,
+    options: IngestOptions,
+    send: (event: ProcessEvent) => Promise<void>
+): Promise<ProcessEvent> {
+    let documentId: string | undefined;
+    try {
+        const fileHash = sha256(buffer);
+
+        // Same bytes already uploaded - let the user link to it or upload anyway
+        const fileDuplicate = options.allowDuplicate ? null : await findDuplicateDocument(supabase, userId, { fileHash });
+        if (fileDuplicate) {
+            return { status: "duplicate", message: duplicateMessage(fileDuplicate), duplicate: fileDuplicate };
+        }
+
+        // New version: unchanged chunks reuse the current version's embeddings
+        const version = options.versionOf ? await prepareNewVersion(supabase, userId, options.versionOf) : undefined;
+
+        // Create the document up front so its status shows in the document list while extracting
+        const { data: doc, error: docError } = await supabase
+            .from('documents')
+            .insert({
+                name: input.name,
+                type: input.type,
+                user_id: userId,
+                status: 'extracting',
+                file_hash: fileHash,
+                archive_name: options.archiveName,
+                ...version?.fields
+            })
+            .select()
+            .single();
+
+        if (docError) {
+            return { status: "error", message: docError.message };
+        }
+        documentId = doc.id;
+
+        await send({ status: "extracting", documentId: doc.id });
+
+        const extraction = await extractDocument(buffer, input, options);
+
+        // Encrypted PDF without a (correct) password - let the client prompt for one
+        if (!extraction.success && extraction.requiresPassword) {
+            // The retry with a password creates its own document
+            await supabase.from('documents').delete().eq('id', doc.id);
+            return {
+                status: "requires_password",
+                message: extraction.userMessage,
+                passwordIncorrect: !!extraction.passwordIncorrect
+            };
         }
-        return result.text;
+
+        // Check for Requires OCR status
+        if (!extraction.success && extraction.requiresOCR && extraction.extractionStatus === 'REQUIRES_OCR') {
+            // Browser OCR saves its result as a new document (/api/save-ocr-result)
+            await supabase.from('documents').delete().eq('id', doc.id);
+            return {
+                status: "requires_ocr",
+                message: extraction.userMessage,
+                ocrEstimate: extraction.ocrEstimate,
+                fileHash // Browser OCR stores it with its result
+            };
+        }
+
+        if (!extraction.success) {
+            throw new Error(extraction.userMessage);
+        }
+
+        const content = extractedContent(extraction);
+        const { rows, chunkingStrategy } = extraction;
+        const ocrPages = extraction.pages.filter(p => p.source === 'ocr');
+        let metadata = extraction.metadata;
+        const url = options.sourceUrl;
+
+        // Images from a URL are previewed from there (unless the URL is the archive they were in)
+        if (isImageFile(input) && (!url || options.archiveName)) {
+            // Keep the original for preview next to its extracted text. Private: the
+            // document list links it through a signed URL (getUserDocuments)
+            const storagePath = `${userId}/images/${Date.now()}_${input.name.replace(/[^a-z0-9._-]/gi, '_')}`;
+            const { error: uploadError } = await supabaseAdmin.storage
+                .from(DOCUMENT_FILES_BUCKET)
+                .upload(storagePath, buffer, { contentType: input.type || 'application/octet-stream' });
+
+            if (uploadError) {
+                console.error('[process-file] Image upload failed:', uploadError.message);
+            } else {
+                metadata = { ...metadata, storagePath };
+            }
+        }
+
+        if (!extraction.text || extraction.text.trim().length === 0) {
+            await updateDocumentStatus(supabase, doc.id, { status: 'failed', failureReason: 'Extracted text is empty' });
+            return { status: "error", message: "Empty text" };
+        }
+
+        // Same text under different bytes (re-exported or re-scanned)
+        const contentHash = textHash(content);
+        const textDuplicate = options.allowDuplicate ? null : await findDuplicateDocument(supabase, userId, { textHash: contentHash });
+        if (textDuplicate) {
+            await supabase.from('documents').delete().eq('id', doc.id);
+            if (metadata?.storagePath) {
+                await supabaseAdmin.storage.from(DOCUMENT_FILES_BUCKET).remove([metadata.storagePath as string]);
+            }
+            return { status: "duplicate", message: duplicateMessage(textDuplicate), duplicate: textDuplicate };
+        }
+
+        await send({ status: "saving" });
+
+        // Flag OCR pages that need review in the file list
+        const reviewPages = lowConfidencePages(ocrPages);
+        if (reviewPages.length > 0) {
+            metadata = { ...metadata, lowConfidencePages: reviewPages };
+        }
+
+        // Fill in the document record
+        const { error: updateError } = await supabase
+            .from('documents')
+            .update({ url, metadata, text_hash: contentHash })
+            .eq('id', doc.id);
+
+        if (updateError) {
+            throw new Error(updateError.message);
+        }
+
+        // Keep parsed rows for structured queries (CSV)
+        if (rows) {
+            await storeDocumentRows(supabase, doc.id, rows);
+        }
+
+        // Keep OCR text, confidence and previews of doubtful pages for review
+        if (ocrPages.length > 0) {
+            await storeOCRPages(supabase, doc.id, ocrPages, {
+                client: supabaseAdmin,
+                pathPrefix: `${userId}/ocr-previews/${doc.id}`
+            });
+        }
+
+        // Keep the extracted text so an interrupted indexing run can be resumed
+        const indexingSource = await saveIndexingSource(supabase, supabaseAdmin, userId, doc.id, {
+            content,
+            source: extraction.source,
+            chunkingStrategy,
+            documentName: input.name
+        });
+
+        await updateDocumentStatus(supabase, doc.id, { status: 'indexing' });
+        await send({ status: "vectorizing" });
+
+        // Vectorize
+        const embedFn = async (content: string): Promise<number[] | null> => {
+            const { data, error } = await supabase.functions.invoke('embed', {
+                body: { input: content }
+            });
+            return error || !data?.embedding ? null : data.embedding;
+        };
+
+        const storeFn = async (chunk: ChunkRecord): Promise<boolean> => {
+            const { error } = await supabase.from('chunks').upsert({
+                chunk_id: chunk.chunkId,
+                document_id: chunk.documentId,
+                content: chunk.content,
+                embedding: chunk.embedding,
+                metadata: {
+                    ...chunk.metadata,
+                    page: chunk.page,
+                    chunkIndex: chunk.chunkIndex,
+                    source: chunk.source,
+                    documentName: chunk.documentName
+                },
+                chunk_index: chunk.chunkIndex
+            }, { onConflict: 'chunk_id' });
+            return !error;
+        };
+
+        // Pass real pages/sections and document name to vectorizer
+        const vecResult = await vectorizeIncrementally(
+            content,
+            doc.id,
+            extraction.source, // Use actual source (pdf2json vs ocr vs mammoth)
+            version ? reuseEmbeddings(embedFn, version.embeddings) : embedFn,
+            storeFn,
+            chunkingStrategy ? { ...DEFAULT_VECTORIZATION_CONFIG, chunkingStrategy } : undefined,
+            undefined,
+            input.name,
+            { onPageComplete: pageCheckpoint(supabase, doc.id) }
+        );
+
+        const outcome = await finishIndexing(supabase, supabaseAdmin, doc.id, vecResult, indexingSource);
+        if (version && outcome.status !== 'failed') {
+            await promoteVersion(supabase, doc.id, version.fields.version_group);
+        }
+
+        return {
+            status: "complete",
+            documentId: doc.id,
+            documentStatus: outcome.status,
+            failureReason: outcome.failureReason,
+            chunks: vecResult.totalChunks,
+            extractionStatus: extraction.extractionStatus,
+            message: extraction.userMessage
+        };
+
+    } catch (e) {
+        const err = e as Error;
+        if (documentId) {
+            await updateDocumentStatus(supabase, documentId, { status: 'failed', failureReason: err.message });
+        }
+        return { status: "error", message: err.message };
     }
+}
 
-    if (type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || name.endsWith('.docx')) {
-        const result = await mammoth.extractRawText({ buffer });
-        return result.value;
+/**
+ * Expand a .zip and ingest each entry as its own document (named by its path in
+ * the archive). Entries are processed one at a time; every step is reported as an
+ * `entry` event, and the final `complete` event summarizes the archive.
+ */
+async function ingestArchive(
+    supabase: SupabaseClient,
+    userId: string,
+    archive: ExtractorInput,
+    buffer: Buffer,
+    options: IngestOptions,
+    send: (event: ProcessEvent) => Promise<void>
+): Promise<ProcessEvent> {
+    const listing = await openZip(buffer);
+    if (!listing.success) {
+        return { status: "error", message: listing.userMessage };
+    }
+
+    const total = listing.entries.length;
+    await send({ status: "archive", archiveName: archive.name, entries: total, skipped: listing.skipped });
+
+    // Entries needing user action (password, browser OCR) can't be resolved inside an archive
+    const ENTRY_NOT_INDEXED: Record<string, string> = {
+        requires_password: 'Password-protected; upload it on its own to unlock',
+        requires_ocr: 'Scanned; upload it on its own to run OCR',
+    };
+
+    const issues = listing.skipped.map(s => ({ path: s.path, message: s.reason }));
+    let documents = 0;
+    let chunks = 0;
+
+    for (const [index, entry] of listing.entries.entries()) {
+        const sendEntry = (event: ProcessEvent) => send({ status: "entry", index, total, path: entry.path, entry: event });
+
+        let result: ProcessEvent;
+        try {
+            const entryBuffer = await entry.read();
+            result = await ingestFile(
+                supabase,
+                userId,
+                { name: entry.path, type: entry.type },
+                entryBuffer,
+                { ...options, password: undefined, versionOf: undefined, archiveName: archive.name },
+                sendEntry
+            );
+        } catch (e) {
+            result = { status: "error", message: (e as Error).message };
+        }
+
+        if (result.status === 'complete') {
+            documents++;
+            chunks += (result.chunks as number) || 0;
+        } else {
+            const message = ENTRY_NOT_INDEXED[result.status] || (result.message as string);
+            issues.push({ path: entry.path, message });
+            result = { ...result, message };
+        }
+        await sendEntry(result);
     }
 
-    if (type === 'text/csv' || name.endsWith('.csv')) {
-        const text = buffer.toString('utf-8');
-        const result = Papa.parse(text, { header: true });
-        return JSON.stringify(result.data, null, 2);
+    return {
+        status: "complete",
+        archive: { name: archive.name, entries: total, documents, issues },
+        chunks,
+        // Nothing indexed at all is a failure of the upload, not of single entries
+        documentStatus: documents === 0 ? 'failed' : issues.length > 0 ? 'partial' : 'ready',
+        failureReason: issues.length > 0 ? `${issues.length} of ${total + listing.skipped.length} files not indexed` : null
+    };
+}
+
+/**
+ * Fetch a URL and ingest the response as one document (or as an archive).
+ * Browser OCR needs the file in the browser, so scans fetched by URL can only
+ * be OCR'd on the server.
+ */
+async function ingestUrl(
+    supabase: SupabaseClient,
+    userId: string,
+    url: string,
+    options: IngestOptions,
+    send: (event: ProcessEvent) => Promise<void>
+): Promise<ProcessEvent> {
+    await send({ status: "fetching", url });
+
+    const fetched = await fetchUrl(url);
+    if (!fetched.success) {
+        return { status: "error", message: fetched.userMessage };
     }
 
-    return buffer.toString('utf-8');
+    // Archive entries keep the URL of the archive they came from
+    const input = { name: fetched.name, type: fetched.type };
+    const fetchedOptions = { ...options, sourceUrl: fetched.url };
+    const result = isZipFile(input)
+        ? await ingestArchive(supabase, userId, input, fetched.buffer, fetchedOptions, send)
+        : await ingestFile(supabase, userId, input, fetched.buffer, fetchedOptions, send);
+
+    return result.status === 'requires_ocr'
+        ? { status: "error", message: 'This PDF is scanned. Enable server OCR, or download it and upload the file to run OCR in the browser.' }
+        : result;
 }
 
 export async function POST(request: NextRequest) {
@@ -72,8 +394,13 @@ export async function POST(request: NextRequest) {
         const formData = await request.formData();
         const file = formData.get('file') as File;
         const ocrEnabled = formData.get('ocrEnabled') === 'true'; // Parse flag
+        const password = (formData.get('password') as string | null) || undefined; // Encrypted PDFs only
+        const ocrLanguage = normalizeOCRLanguage(formData.get('ocrLanguage') as string | null); // 'auto' unless chosen
+        const allowDuplicate = formData.get('allowDuplicate') === 'true'; // User chose to upload a known file anyway
+        const versionOf = (formData.get('versionOf') as string | null) || undefined; // Re-upload as a new version of this document
+        const url = (formData.get('url') as string | null)?.trim() || undefined; // Fetch and ingest this URL instead of a file
 
-        if (!file) {
+        if (!file && !url) {
             return NextResponse.json({ success: false, error: 'No file' }, { status: 400 });
         }
 
@@ -82,104 +409,29 @@ export async function POST(request: NextRequest) {
         const encoder = new TextEncoder();
         const stream = new TransformStream();
         const writer = stream.writable.getWriter();
+        const send = (event: ProcessEvent) => writer.write(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
 
         // Start background processing
         (async () => {
             try {
-                await writer.write(encoder.encode(`data: ${JSON.stringify({ status: "extracting" })}\n\n`));
-
-                const arrayBuffer = await file.arrayBuffer();
-                const buffer = Buffer.from(arrayBuffer);
-
-                // Pass ocrEnabled to pipeline
-                const result = await extractPDFText(buffer, { ...DEFAULT_CONFIG, ocrEnabled });
-
-                // Check for Requires OCR status
-                if (!result.success && result.requiresOCR && result.extractionStatus === 'REQUIRES_OCR') {
-                    await writer.write(encoder.encode(`data: ${JSON.stringify({
-                        status: "requires_ocr",
-                        message: result.userMessage,
-                        ocrEstimate: result.ocrEstimate
-                    })}\n\n`));
-                    await writer.close();
+                const options: IngestOptions = { ocrEnabled, ocrLanguage, password, allowDuplicate, versionOf };
+                if (url) {
+                    await send(await ingestUrl(supabase, user.id, url, options, send));
                     return;
                 }
 
-                if (!result.success) {
-                    throw new Error(result.userMessage);
-                }
-
-                const text = result.text;
-
-                if (!text || text.trim().length === 0) {
-                    await writer.write(encoder.encode(`data: ${JSON.stringify({ status: "error", message: "Empty text" })}\n\n`));
-                    await writer.close();
-                    return;
-                }
-
-                await writer.write(encoder.encode(`data: ${JSON.stringify({ status: "saving" })}\n\n`));
-
-                // Create document record
-                const { data: doc, error: docError } = await supabase
-                    .from('documents')
-                    .insert({
-                        name: file.name,
-                        type: file.type,
-                        user_id: user.id
-                    })
-                    .select()
-                    .single();
-
-                if (docError) {
-                    await writer.write(encoder.encode(`data: ${JSON.stringify({ status: "error", message: docError.message })}\n\n`));
-                    await writer.close();
-                    return;
-                }
+                const arrayBuffer = await file.arrayBuffer();
+                const buffer = Buffer.from(arrayBuffer);
 
-                await writer.write(encoder.encode(`data: ${JSON.stringify({ status: "vectorizing" })}\n\n`));
-
-                // Vectorize
-                const embedFn = async (content: string): Promise<number[] | null> => {
-                    const { data, error } = await supabase.functions.invoke('embed', {
-                        body: { input: content }
-                    });
-                    return error || !data?.embedding ? null : data.embedding;
-                };
-
-                const storeFn = async (chunk: ChunkRecord): Promise<boolean> => {
-                    const { error } = await supabase.from('chunks').insert({
-                        document_id: chunk.documentId,
-                        content: chunk.content,
-                        embedding: chunk.embedding,
-                        metadata: {
-                            page: chunk.page,
-                            chunkIndex: chunk.chunkIndex,
-                            source: chunk.source,
-                            documentName: chunk.documentName
-                        },
-                        chunk_index: chunk.chunkIndex
-                    });
-                    return !error;
-                };
-
-                // Pass document name to vectorizer
-                const vecResult = await vectorizeIncrementally(
-                    text,
-                    doc.id,
-                    result.source, // Use actual source (pdf2json vs ocr)
-                    embedFn,
-                    storeFn,
-                    undefined,
-                    undefined,
-                    file.name
-                );
-
-                await writer.write(encoder.encode(`data: ${JSON.stringify({ status: "complete", documentId: doc.id, chunks: vecResult.totalChunks })}\n\n`));
-                await writer.close();
+                const result = isZipFile(file)
+                    ? await ingestArchive(supabase, user.id, file, buffer, options, send)
+                    : await ingestFile(supabase, user.id, file, buffer, options, send);
+                await send(result);
 
             } catch (e) {
                 const err = e as Error;
-                await writer.write(encoder.encode(`data: ${JSON.stringify({ status: "error", message: err.message })}\n\n`));
+                await send({ status: "error", message: err.message });
+            } finally {
                 await writer.close();
             }
         })();
@@ -8,7 +8,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
-import { vectorizeIncrementally, ChunkRecord } from '@/lib/vectorize-pipeline';
+import { vectorizeIncrementally, ChunkRecord, PageText } from '@/lib/vectorize-pipeline';
+import { textHash, findDuplicateDocument, duplicateMessage } from '@/lib/content-hash';
+import { prepareNewVersion, reuseEmbeddings, promoteVersion } from '@/lib/document-versions';
+import { saveIndexingSource, pageCheckpoint, finishIndexing } from '@/lib/indexing-checkpoint';
+import { normalizeOCRLanguage, ocrLanguageMetadata } from '@/lib/ocr-languages';
+import { lowConfidencePages, storeOCRPages } from '@/lib/ocr-review';
+import { supabaseAdmin } from '@/lib/supabase';
+import type { OCRWord } from '@/lib/pdf-pipeline';
 
 async function createClient() {
     const cookieStore = await cookies();
@@ -40,6 +47,25 @@ export async function POST(request: NextRequest) {
 
         const body = await request.json();
         const { filename, text } = body;
+        // Optional per-page OCR output: [{ pageNumber, text, confidence?, words?, preview? }]
+        const pages: (PageText & { preview?: Buffer })[] | undefined = Array.isArray(body.pages)
+            ? body.pages
+                .filter((p: { pageNumber?: unknown; text?: unknown }) => typeof p?.pageNumber === 'number' && typeof p?.text === 'string')
+                .map((p: { pageNumber: number; text: string; confidence?: unknown; words?: unknown; preview?: unknown }) => ({
+                    pageNumber: p.pageNumber,
+                    text: p.text,
+                    source: 'ocr' as const,
+                    confidence: typeof p.confidence === 'number' ? p.confidence : undefined,
+                    words: Array.isArray(p.words) ? (p.words as OCRWord[]) : undefined,
+                    // Preview arrives as a JPEG data URL
+                    preview: typeof p.preview === 'string' && p.preview.startsWith('data:image/jpeg;base64,')
+                        ? Buffer.from(p.preview.slice('data:image/jpeg;base64,'.length), 'base64')
+                        : undefined,
+                }))
+            : undefined;
+        // Language(s) the browser OCR used (auto-detected or chosen), plus the detected script
+        const language = normalizeOCRLanguage(body.language);
+        const script = typeof body.script === 'string' ? body.script : undefined;
 
         if (!filename || !text) {
             return NextResponse.json({ success: false, error: 'Missing filename or text' }, { status: 400 });
@@ -49,13 +75,37 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ success: false, error: 'Extracted text is too short' }, { status: 400 });
         }
 
+        // Same file (hash from /api/process-file) or same text already uploaded
+        const fileHash = typeof body.fileHash === 'string' && /^[0-9a-f]{64}$/.test(body.fileHash) ? body.fileHash : undefined;
+        const contentHash = textHash(pages && pages.length > 0 ? pages : text);
+        if (!body.allowDuplicate) {
+            const duplicate = await findDuplicateDocument(supabase, user.id, { fileHash, textHash: contentHash });
+            if (duplicate) {
+                return NextResponse.json({ success: false, error: duplicateMessage(duplicate), duplicate }, { status: 409 });
+            }
+        }
+
+        // New version of an existing document: unchanged chunks reuse its embeddings
+        const version = typeof body.versionOf === 'string' ? await prepareNewVersion(supabase, user.id, body.versionOf) : undefined;
+
+        // Flag OCR pages that need review in the file list
+        const reviewPages = lowConfidencePages(pages || []);
+
         // Create document record
         const { data: doc, error: docError } = await supabase
             .from('documents')
             .insert({
                 name: filename,
                 type: 'application/pdf',
-                user_id: user.id
+                user_id: user.id,
+                status: 'indexing', // Text was extracted in the browser
+                file_hash: fileHash,
+                text_hash: contentHash,
+                ...version?.fields,
+                metadata: {
+                    ...ocrLanguageMetadata(language, script),
+                    ...(reviewPages.length > 0 ? { lowConfidencePages: reviewPages } : {})
+                }
             })
             .select()
             .single();
@@ -64,6 +114,22 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ success: false, error: docError.message }, { status: 500 });
         }
 
+        // Keep OCR text, confidence and previews of doubtful pages for review
+        if (pages && pages.length > 0) {
+            await storeOCRPages(supabase, doc.id, pages, {
+                client: supabaseAdmin,
+                pathPrefix: `${user.id}/ocr-previews/${doc.id}`
+            });
+        }
+
+        // Keep the extracted text so an interrupted indexing run can be resumed
+        const content = pages && pages.length > 0 ? pages : text;
+        const indexingSource = await saveIndexingSource(supabase, supabaseAdmin, user.id, doc.id, {
+            content,
+            source: 'ocr',
+            documentName: filename
+        });
+
         // Vectorize the text
         const embedFn = async (content: string): Promise<number[] | null> => {
             const { data, error } = await supabase.functions.invoke('embed', {
@@ -73,35 +139,44 @@ export async function POST(request: NextRequest) {
         };
 
         const storeFn = async (chunk: ChunkRecord): Promise<boolean> => {
-            const { error } = await supabase.from('chunks').insert({
+            const { error } = await supabase.from('chunks').upsert({
+                chunk_id: chunk.chunkId,
                 document_id: chunk.documentId,
                 content: chunk.content,
                 embedding: chunk.embedding,
                 metadata: {
+                    ...chunk.metadata,
                     page: chunk.page,
                     chunkIndex: chunk.chunkIndex,
                     source: chunk.source,
                     documentName: chunk.documentName
                 },
                 chunk_index: chunk.chunkIndex
-            });
+            }, { onConflict: 'chunk_id' });
             return !error;
         };
 
         const vecResult = await vectorizeIncrementally(
-            text,
+            content,
             doc.id,
             'ocr', // Source is OCR
-            embedFn,
+            version ? reuseEmbeddings(embedFn, version.embeddings) : embedFn,
             storeFn,
             undefined,
             undefined,
-            filename
+            filename,
+            { onPageComplete: pageCheckpoint(supabase, doc.id) }
         );
 
+        const outcome = await finishIndexing(supabase, supabaseAdmin, doc.id, vecResult, indexingSource);
+        if (version && outcome.status !== 'failed') {
+            await promoteVersion(supabase, doc.id, version.fields.version_group);
+        }
+
         return NextResponse.json({
             success: true,
             documentId: doc.id,
+            documentStatus: outcome.status,
             chunks: vecResult.totalChunks
         });
 
@@ -1,30 +1,77 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { processFile, getUserDocuments, deleteDocument } from '../actions'
+import { useState, useEffect, useRef, Fragment } from 'react'
+import { processFile, getUserDocuments, deleteDocument, resumeIndexing } from '../actions'
 import { signOut } from '../auth/actions'
 import ChatInterface from '@/components/ChatInterface'
-import { UploadCloud, FileText, Trash2, MessageSquare, ChevronRight } from 'lucide-react'
+import { UploadCloud, FileText, Trash2, MessageSquare, ChevronRight, Image as ImageIcon, AlertTriangle, RotateCw, FilePlus, History, FileArchive, Link2, ExternalLink } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import PodcastStudio from '@/components/PodcastStudio'
 import { Toast, ToastType } from '@/components/ui/Toast'
-import ClientOCRProcessor from '@/components/ClientOCRProcessor'
+import ClientOCRProcessor, { OCRPage, OCRLanguageResult } from '@/components/ClientOCRProcessor'
+import OCRReviewPanel from '@/components/OCRReviewPanel'
+import { CODE_EXTENSIONS } from '@/lib/code-pipeline'
+import { OCR_AUTO_LANGUAGE, OCR_LANGUAGES } from '@/lib/ocr-languages'
+import { DocumentStatus, isInProgress, isStalled } from '@/lib/document-status'
+import type { DuplicateDocument } from '@/lib/content-hash'
 
-type FileStatus = 'queued' | 'processing' | 'completed' | 'error' | 'requires_ocr' | 'ocr_processing'
+// Resolves after `ms`, or as soon as the signal aborts
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms)
+  signal.addEventListener('abort', () => { clearTimeout(timer); resolve() }, { once: true })
+})
+
+type FileStatus = 'queued' | 'processing' | 'completed' | 'error' | 'requires_ocr' | 'ocr_processing' | 'ocr_queued' | 'requires_password' | 'duplicate'
 
 interface FileItem {
   id: string
-  file: File
+  name: string // File name, or the URL
+  file?: File // Local upload
+  url?: string // Added from URL: fetched and extracted by the server
   status: FileStatus
   message?: string
+  password?: string
+  ocrLanguage: string // Tesseract language(s) chosen at upload time, or 'auto'
+  ocrEstimate?: { estimatedTimeSeconds: number; pageCount: number; warning: string; canRunSync: boolean }
+  jobId?: string
+  jobProgress?: { pagesCompleted: number; pageCount: number }
+  fileHash?: string // From /api/process-file, stored with a browser OCR result
+  duplicate?: DuplicateDocument // Existing document with the same bytes or text
+  allowDuplicate?: boolean // User chose to upload anyway
+  ocrResult?: { text: string; pages: OCRPage[]; language: OCRLanguageResult } // Browser OCR output held while resolving a duplicate
+  versionOf?: { id: string; name: string } // Upload as a new version of this document
+  archiveProgress?: { done: number; total: number; current?: string } // .zip uploads: entries processed so far
+}
+
+const DOCUMENT_ACCEPT = ['.pdf', '.docx', '.epub', '.pptx', '.xlsx', '.html', '.htm', '.txt', '.json', '.csv', '.md', '.png', '.jpg', '.jpeg', '.tif', '.tiff', '.webp', ...CODE_EXTENSIONS].join(',')
+const UPLOAD_ACCEPT = `${DOCUMENT_ACCEPT},.zip` // Archives expand into one document per file
+
+const OCR_JOB_POLL_MS = 3000
+const OCR_JOB_MAX_POLL_MS = 30000 // Backoff ceiling while the status endpoint is failing
+const OCR_JOB_MAX_POLL_FAILURES = 8 // Consecutive failures before giving up on a job
+const DOC_STATUS_POLL_MS = 3000
+
+const DOC_STATUS_LABELS: Record<DocumentStatus, string> = {
+  pending: 'Pending',
+  extracting: 'Extracting',
+  indexing: 'Indexing',
+  ready: 'Ready',
+  partial: 'Partial',
+  failed: 'Failed'
 }
 
 export default function Home() {
   const [files, setFiles] = useState<FileItem[]>([])
   const [isProcessing, setIsProcessing] = useState(false)
+  const [serverOCR, setServerOCR] = useState(false)
+  const [ocrLanguages, setOCRLanguages] = useState<string[]>([]) // Empty = auto-detect
   const [userDocs, setUserDocs] = useState<any[]>([])
   const [selectedDocIds, setSelectedDocIds] = useState<string[]>([])
   const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null)
+  const [reviewDoc, setReviewDoc] = useState<{ id: string; name: string } | null>(null)
+  const [resumingDocId, setResumingDocId] = useState<string | null>(null)
+  const [expandedVersionGroups, setExpandedVersionGroups] = useState<string[]>([])
+  const [expandedArchives, setExpandedArchives] = useState<string[]>([])
 
   const toggleSelection = (id: string, multiSelect: boolean = true) => {
     setSelectedDocIds(prev => {
@@ -46,29 +93,130 @@ export default function Home() {
     setUserDocs(docs || [])
   }
 
+  // Refresh the list while any document is still extracting/indexing
+  const hasDocsInProgress = userDocs.some(doc => isInProgress(doc.status) && !isStalled(doc.status, doc.status_updated_at))
+  useEffect(() => {
+    if (!hasDocsInProgress) return
+    const timer = setInterval(loadUserDocs, DOC_STATUS_POLL_MS)
+    return () => clearInterval(timer)
+  }, [hasDocsInProgress])
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
       const newFiles = Array.from(e.target.files).map((file) => ({
         id: Math.random().toString(36).substring(7),
+        name: file.name,
         file,
         status: 'queued' as FileStatus,
+        ocrLanguage: ocrLanguages.join('+') || OCR_AUTO_LANGUAGE,
       }))
       setFiles((prev) => [...prev, ...newFiles])
     }
   }
 
+  // Queue a web page or file URL; the server fetches it
+  const handleAddUrl = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const form = e.currentTarget
+    const url = (new FormData(form).get('url') as string).trim()
+    if (!/^https?:\/\/\S+$/i.test(url)) {
+      setToast({ message: 'Enter a full http:// or https:// URL', type: 'error' })
+      return
+    }
+
+    setFiles(prev => [...prev, {
+      id: Math.random().toString(36).substring(7),
+      name: url,
+      url,
+      status: 'queued' as FileStatus,
+      ocrLanguage: ocrLanguages.join('+') || OCR_AUTO_LANGUAGE,
+    }])
+    form.reset()
+  }
+
+  // Re-upload under an existing document: queued as its next version
+  const handleVersionSelect = (e: React.ChangeEvent<HTMLInputElement>, doc: { id: string; name: string }) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setFiles(prev => [...prev, {
+      id: Math.random().toString(36).substring(7),
+      name: file.name,
+      file,
+      status: 'queued' as FileStatus,
+      ocrLanguage: ocrLanguages.join('+') || OCR_AUTO_LANGUAGE,
+      versionOf: { id: doc.id, name: doc.name }
+    }])
+  }
+
+  const toggleVersionHistory = (group: string) => {
+    setExpandedVersionGroups(prev => prev.includes(group) ? prev.filter(g => g !== group) : [...prev, group])
+  }
+
+  // One row per document: its latest version (plus newer versions still indexing or failed);
+  // older versions only while their history is expanded
+  const versionGroups = new Map<string, typeof userDocs>()
+  for (const doc of userDocs) {
+    const group = doc.version_group || doc.id
+    versionGroups.set(group, [...(versionGroups.get(group) || []), doc])
+  }
+  const listedDocs = Array.from(versionGroups.entries()).flatMap(([group, versions]) => {
+    versions.sort((a, b) => (b.version || 1) - (a.version || 1))
+    const latest = versions.find(v => v.is_latest !== false) || versions[0]
+    const newer = versions.filter(v => (v.version || 1) > (latest.version || 1))
+    const older = expandedVersionGroups.includes(group) ? versions.filter(v => (v.version || 1) < (latest.version || 1)) : []
+    return [
+      ...[...newer, latest].map(doc => ({ doc, group, versionCount: versions.length, isOlderVersion: false })),
+      ...older.map(doc => ({ doc, group, versionCount: versions.length, isOlderVersion: true }))
+    ]
+  })
+
+  const toggleArchive = (name: string) => {
+    setExpandedArchives(prev => prev.includes(name) ? prev.filter(a => a !== name) : [...prev, name])
+  }
+
+  const selectArchive = (docIds: string[]) => {
+    setSelectedDocIds(prev => docIds.every(id => prev.includes(id))
+      ? prev.filter(id => !docIds.includes(id))
+      : [...prev, ...docIds.filter(id => !prev.includes(id))])
+  }
+
+  // Documents expanded from a .zip are listed together under the archive name
+  // (at the position of its newest entry), collapsed until opened
+  const archiveEntries = new Map<string, typeof listedDocs>()
+  for (const item of listedDocs) {
+    const archive = item.doc.archive_name
+    if (archive) archiveEntries.set(archive, [...(archiveEntries.get(archive) || []), item])
+  }
+  const listRows = listedDocs.flatMap(item => {
+    const archive: string | null = item.doc.archive_name
+    if (!archive) return [{ ...item, inArchive: false, archiveHeader: null, collapsedInArchive: false }]
+
+    const entries = archiveEntries.get(archive)!
+    if (entries[0] !== item) return []
+    const collapsed = !expandedArchives.includes(archive)
+    const docIds = entries.filter(e => !e.isOlderVersion).map(e => e.doc.id)
+    return entries.map((entry, i) => ({
+      ...entry,
+      inArchive: true,
+      archiveHeader: i === 0 ? { name: archive, docIds } : null,
+      collapsedInArchive: collapsed
+    }))
+  })
+
   const handleProcessAll = () => {
     // Don't await - process in background
     processFilesInBackground()
   }
 
   // Non-blocking background processor using streaming API
-  const processFilesInBackground = async () => {
+  const processFilesInBackground = async (items?: FileItem[]) => {
     if (isProcessing) return
     setIsProcessing(true)
 
     // Get copy of files to process
-    const filesToProcess = files.filter(f => f.status === 'queued')
+    const filesToProcess = items ?? files.filter(f => f.status === 'queued')
 
     // Process each file via streaming API (truly non-blocking)
     for (const item of filesToProcess) {
@@ -77,7 +225,16 @@ export default function Home() {
 
       try {
         const formData = new FormData()
-        formData.append('file', item.file)
+        if (item.url) {
+          formData.append('url', item.url)
+        } else {
+          formData.append('file', item.file!)
+        }
+        formData.append('ocrEnabled', String(serverOCR))
+        formData.append('ocrLanguage', item.ocrLanguage)
+        if (item.password) formData.append('password', item.password)
+        if (item.allowDuplicate) formData.append('allowDuplicate', 'true')
+        if (item.versionOf) formData.append('versionOf', item.versionOf.id)
 
         // Use streaming API route instead of server action
         const response = await fetch('/api/process-file', {
@@ -114,15 +271,63 @@ export default function Home() {
                     const jsonStr = line.trim().slice(6)
                     const data = JSON.parse(jsonStr)
 
-                    if (data.status === 'complete') {
+                    if (data.status === 'extracting' && data.documentId) {
+                      // Document row exists now; show it (and its status) in the list
+                      loadUserDocs()
+                    } else if (data.status === 'archive') {
+                      setFiles(prev => prev.map(f => f.id === item.id ? { ...f, archiveProgress: { done: 0, total: data.entries } } : f))
+                    } else if (data.status === 'entry') {
+                      // Per-entry progress of a .zip; the entry's own event is nested
+                      const entryDone = !['extracting', 'saving', 'vectorizing'].includes(data.entry.status)
+                      if (data.entry.status === 'extracting' || entryDone) loadUserDocs()
+                      setFiles(prev => prev.map(f => f.id === item.id ? {
+                        ...f,
+                        archiveProgress: { done: data.index + (entryDone ? 1 : 0), total: data.total, current: data.path }
+                      } : f))
+                    } else if (data.status === 'complete' && data.archive) {
+                      success = data.archive.documents > 0
+                      for (const issue of data.archive.issues) {
+                        console.warn(`${item.name}/${issue.path}: ${issue.message}`)
+                      }
+                      setToast({
+                        message: `${item.name}: ${data.archive.documents} of ${data.archive.entries} files indexed${data.failureReason ? ` · ${data.failureReason}` : ''}`,
+                        type: data.documentStatus === 'failed' ? 'error' : data.documentStatus === 'partial' ? 'info' : 'success'
+                      })
+                      if (!success) {
+                        setFiles(prev => prev.map(f => f.id === item.id ? { ...f, status: 'error', message: data.failureReason } : f))
+                      }
+                    } else if (data.status === 'complete') {
                       success = true
+                      if (data.documentStatus === 'partial' || data.documentStatus === 'failed') {
+                        setToast({ message: `${item.name}: ${data.failureReason}`, type: data.documentStatus === 'failed' ? 'error' : 'info' })
+                      } else if (data.extractionStatus === 'PARTIAL') {
+                        setToast({ message: `${item.name}: ${data.message}`, type: 'info' })
+                      }
                     } else if (data.status === 'requires_ocr') {
                       setFiles(prev => prev.map(f => f.id === item.id ? {
                         ...f,
                         status: 'requires_ocr',
-                        message: data.message
+                        message: data.message,
+                        ocrEstimate: data.ocrEstimate,
+                        fileHash: data.fileHash
                       } : f))
                       // Don't mark as success (keeps item in list), but don't error out
+                    } else if (data.status === 'duplicate') {
+                      setFiles(prev => prev.map(f => f.id === item.id ? {
+                        ...f,
+                        status: 'duplicate',
+                        message: data.message,
+                        duplicate: data.duplicate
+                      } : f))
+                    } else if (data.status === 'requires_password') {
+                      setFiles(prev => prev.map(f => f.id === item.id ? {
+                        ...f,
+                        status: 'requires_password',
+                        message: data.message
+                      } : f))
+                      if (data.passwordIncorrect) {
+                        setToast({ message: data.message || 'Incorrect password', type: 'error' })
+                      }
                     } else if (data.status === 'error') {
                       // Use warn instead of error to avoid Next.js error overlay
                       console.warn(`Processing failed: ${data.message}`)
@@ -153,7 +358,7 @@ export default function Home() {
         setFiles(prev => prev.filter(f => f.id !== item.id))
 
         // Log as warning to avoid dev overlay
-        console.warn(`Error processing ${item.file.name}: ${error.message}`)
+        console.warn(`Error processing ${item.name}: ${error.message}`)
         setToast({ message: error.message || 'Upload failed', type: 'error' })
       }
     }
@@ -170,25 +375,94 @@ export default function Home() {
     await loadUserDocs()
   }
 
+  const handleResume = async (e: React.MouseEvent, id: string) => {
+    e.stopPropagation()
+    setResumingDocId(id)
+
+    const result = await resumeIndexing(id)
+    setToast(result.success
+      ? { message: `Indexing resumed: ${result.count} chunks indexed`, type: 'success' }
+      : { message: result.error || 'Resume failed', type: 'error' })
+
+    setResumingDocId(null)
+    await loadUserDocs()
+  }
+
+  // Re-submit an encrypted PDF with the password the user entered
+  const handleUnlock = (e: React.FormEvent<HTMLFormElement>, fileItem: FileItem) => {
+    e.preventDefault()
+    const password = new FormData(e.currentTarget).get('password') as string
+    if (!password) return
+
+    const unlocked: FileItem = { ...fileItem, password, status: 'queued', message: undefined }
+    setFiles(prev => prev.map(f => f.id === fileItem.id ? unlocked : f))
+    processFilesInBackground([unlocked])
+  }
+
+  // Duplicate upload: select the existing document instead
+  const handleUseExisting = (fileItem: FileItem) => {
+    const existingId = fileItem.duplicate?.id
+    if (existingId) setSelectedDocIds(prev => prev.includes(existingId) ? prev : [...prev, existingId])
+    setFiles(prev => prev.filter(f => f.id !== fileItem.id))
+  }
+
+  // Duplicate upload: index it as a separate document anyway
+  const handleUploadAnyway = (fileItem: FileItem) => {
+    const item: FileItem = { ...fileItem, allowDuplicate: true, duplicate: undefined, message: undefined }
+
+    if (item.ocrResult) {
+      const { text, pages, language } = item.ocrResult
+      setFiles(prev => prev.map(f => f.id === item.id ? { ...item, status: 'processing', ocrResult: undefined } : f))
+      handleOCRComplete(item, text, pages, language)
+      return
+    }
+
+    const queued: FileItem = { ...item, status: 'queued' }
+    setFiles(prev => prev.map(f => f.id === item.id ? queued : f))
+    processFilesInBackground([queued])
+  }
+
   const handleRunOCR = (fileItem: FileItem) => {
     // Set status to ocr_processing - component will handle the rest
     setFiles(prev => prev.map(f => f.id === fileItem.id ? { ...f, status: 'ocr_processing' } : f))
   }
 
-  const handleOCRComplete = async (fileItem: FileItem, text: string) => {
+  const toggleOCRLanguage = (code: string) => {
+    setOCRLanguages(prev => prev.includes(code) ? prev.filter(c => c !== code) : [...prev, code])
+  }
+
+  const handleOCRComplete = async (fileItem: FileItem, text: string, pages: OCRPage[], language: OCRLanguageResult) => {
     try {
       // Send extracted text to server for storage
       const response = await fetch('/api/save-ocr-result', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          filename: fileItem.file.name,
-          text: text
+          filename: fileItem.name,
+          text: text,
+          pages: pages,
+          language: language.language,
+          script: language.script,
+          fileHash: fileItem.fileHash,
+          allowDuplicate: fileItem.allowDuplicate,
+          versionOf: fileItem.versionOf?.id
         })
       })
 
       const result = await response.json()
 
+      if (response.status === 409 && result.duplicate) {
+        // Keep the OCR output so "Upload anyway" doesn't have to OCR again
+        setFiles(prev => prev.map(f => f.id === fileItem.id ? {
+          ...f,
+          status: 'duplicate',
+          message: result.error,
+          duplicate: result.duplicate,
+          ocrResult: { text, pages, language }
+        } : f))
+        return
+      }
+
       if (!response.ok || !result.success) {
         throw new Error(result.error || 'Failed to save OCR result')
       }
@@ -206,6 +480,125 @@ export default function Home() {
     }
   }
 
+  // Large scans: enqueue a server-side OCR job and poll it until it finishes
+  const handleRunAsyncOCR = async (fileItem: FileItem) => {
+    try {
+      const formData = new FormData()
+      formData.append('file', fileItem.file!)
+      formData.append('ocrLanguage', fileItem.ocrLanguage)
+      if (fileItem.password) formData.append('password', fileItem.password)
+
+      const response = await fetch('/api/ocr-jobs', { method: 'POST', body: formData })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to start OCR job')
+      }
+
+      setFiles(prev => prev.map(f => f.id === fileItem.id ? {
+        ...f,
+        status: 'ocr_queued',
+        jobId: result.jobId,
+        jobProgress: { pagesCompleted: 0, pageCount: result.pageCount }
+      } : f))
+      setToast({ message: result.ocrEstimate?.warning || 'OCR job started', type: 'info' })
+
+    } catch (err) {
+      const error = err as Error
+      console.warn('[OCR Job Error]', error)
+      setToast({ message: error.message || 'Failed to start OCR job', type: 'error' })
+    }
+  }
+
+  // Queued job no longer trackable: show why and let the user retry
+  const stopTrackingOCRJob = (fileId: string, message: string) => {
+    setFiles(prev => prev.map(f => f.id === fileId ? { ...f, status: 'error', message, jobId: undefined, jobProgress: undefined } : f))
+    setToast({ message, type: 'error' })
+  }
+
+  const pollOCRJob = async (fileId: string, jobId: string, signal: AbortSignal) => {
+    let failures = 0
+
+    while (!signal.aborted) {
+      // Back off while the status endpoint is failing
+      await wait(Math.min(OCR_JOB_POLL_MS * 2 ** failures, OCR_JOB_MAX_POLL_MS), signal)
+      if (signal.aborted) return
+
+      let job
+      try {
+        const response = await fetch(`/api/ocr-jobs/${jobId}`, { signal })
+        job = await response.json().catch(() => ({}))
+
+        // Expired session or deleted job - asking again won't change the answer
+        if (response.status >= 400 && response.status < 500) {
+          stopTrackingOCRJob(fileId, response.status === 401 ? 'Session expired - sign in again to follow the OCR job' : job.error || 'OCR job not found')
+          return
+        }
+        if (!response.ok || !job.success) throw new Error(job.error || 'Failed to fetch OCR job status')
+        failures = 0
+      } catch (err) {
+        if (signal.aborted) return
+        console.warn('[OCR Job Poll]', err)
+        if (++failures >= OCR_JOB_MAX_POLL_FAILURES) {
+          stopTrackingOCRJob(fileId, 'Lost contact with the OCR job - check the document list later')
+          return
+        }
+        continue
+      }
+
+      if (job.status === 'completed') {
+        setFiles(prev => prev.filter(f => f.id !== fileId))
+        loadUserDocs()
+        setToast({ message: 'OCR completed successfully', type: 'success' })
+        return
+      }
+
+      if (job.status === 'failed' || job.status === 'cancelled') {
+        setFiles(prev => prev.map(f => f.id === fileId ? {
+          ...f,
+          status: job.status === 'failed' ? 'error' : 'requires_ocr',
+          message: job.error || undefined,
+          jobId: undefined,
+          jobProgress: undefined
+        } : f))
+        if (job.status === 'failed') setToast({ message: job.error || 'OCR job failed', type: 'error' })
+        return
+      }
+
+      setFiles(prev => prev.map(f => f.id === fileId ? {
+        ...f,
+        jobProgress: { pagesCompleted: job.pagesCompleted, pageCount: job.pageCount }
+      } : f))
+    }
+  }
+
+  // Latest pollOCRJob for the effect below, which restarts only when the queued jobs change
+  const pollOCRJobRef = useRef(pollOCRJob)
+  useEffect(() => { pollOCRJobRef.current = pollOCRJob })
+
+  // Poll each queued job while its item is in the queue; stops when the item
+  // leaves `files`, changes state, or the page unmounts
+  const queuedJobs = files.filter(f => f.status === 'ocr_queued' && f.jobId).map(f => `${f.id}:${f.jobId}`).join(',')
+  useEffect(() => {
+    if (!queuedJobs) return
+    const controller = new AbortController()
+    for (const entry of queuedJobs.split(',')) {
+      const [fileId, jobId] = entry.split(':')
+      pollOCRJobRef.current(fileId, jobId, controller.signal)
+    }
+    return () => controller.abort()
+  }, [queuedJobs])
+
+  const handleCancelOCRJob = async (fileItem: FileItem) => {
+    if (!fileItem.jobId) return
+    // Polling picks up the cancelled status and resets the item
+    const response = await fetch(`/api/ocr-jobs/${fileItem.jobId}`, { method: 'DELETE' })
+    if (!response.ok) {
+      const result = await response.json()
+      setToast({ message: result.error || 'Failed to cancel OCR job', type: 'error' })
+    }
+  }
+
   const handleOCRError = (fileItem: FileItem, error: string) => {
     setToast({ message: error, type: 'error' })
     setFiles(prev => prev.map(f => f.id === fileItem.id ? { ...f, status: 'error', message: error } : f))
@@ -242,7 +635,7 @@ export default function Home() {
               type="file"
               onChange={handleFileSelect}
               className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-              accept=".pdf,.docx,.txt,.json,.csv,.md"
+              accept={UPLOAD_ACCEPT}
               multiple
             />
             <div className="flex flex-col items-center gap-2">
@@ -256,6 +649,65 @@ export default function Home() {
             </div>
           </div>
 
+          {/* Add from URL (web page or file link) */}
+          <form onSubmit={handleAddUrl} className="flex gap-1">
+            <input
+              type="url"
+              name="url"
+              placeholder="Add from URL"
+              autoComplete="off"
+              className="flex-1 min-w-0 text-xs bg-background border border-border rounded px-2 py-1 outline-none focus:ring-1 focus:ring-primary"
+            />
+            <button
+              type="submit"
+              className="cursor-pointer flex items-center gap-1 text-[10px] uppercase font-bold tracking-wide px-2 py-1 rounded border border-border text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <Link2 className="w-3 h-3" />
+              Add
+            </button>
+          </form>
+
+          <label className="flex items-center gap-2 text-[10px] text-muted-foreground cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={serverOCR}
+              onChange={(e) => setServerOCR(e.target.checked)}
+              className="accent-primary"
+            />
+            OCR scanned pages on the server (mixed PDFs)
+          </label>
+
+          {/* OCR Languages (none selected = detect from the first page) */}
+          <div className="space-y-1">
+            <span className="text-[10px] uppercase text-muted-foreground font-bold">OCR Language</span>
+            <div className="flex flex-wrap gap-1">
+              <button
+                type="button"
+                onClick={() => setOCRLanguages([])}
+                className={cn(
+                  "px-1.5 py-0.5 rounded border text-[10px] transition-colors",
+                  ocrLanguages.length === 0 ? "bg-primary/10 border-primary/50 text-primary" : "border-border text-muted-foreground hover:text-foreground"
+                )}
+              >
+                Auto-detect
+              </button>
+              {OCR_LANGUAGES.map(lang => (
+                <button
+                  key={lang.code}
+                  type="button"
+                  onClick={() => toggleOCRLanguage(lang.code)}
+                  title={lang.code}
+                  className={cn(
+                    "px-1.5 py-0.5 rounded border text-[10px] transition-colors",
+                    ocrLanguages.includes(lang.code) ? "bg-primary/10 border-primary/50 text-primary" : "border-border text-muted-foreground hover:text-foreground"
+                  )}
+                >
+                  {lang.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
           {/* Queue Status */}
           {files.length > 0 && (
             <div className="space-y-2">
@@ -273,27 +725,97 @@ export default function Home() {
                 <div key={f.id} className="space-y-1">
                   {f.status === 'ocr_processing' ? (
                     <ClientOCRProcessor
-                      file={f.file}
-                      onComplete={(text) => handleOCRComplete(f, text)}
+                      file={f.file!}
+                      password={f.password}
+                      language={f.ocrLanguage}
+                      onComplete={(text, pages, language) => handleOCRComplete(f, text, pages, language)}
                       onError={(error) => handleOCRError(f, error)}
                       onCancel={() => handleOCRCancel(f)}
                     />
+                  ) : f.status === 'duplicate' ? (
+                    <div className="space-y-1">
+                      <div className="text-xs flex justify-between text-muted-foreground">
+                        <span className="truncate max-w-[150px]">{f.name}</span>
+                        <span className="text-amber-500">duplicate</span>
+                      </div>
+                      <p className="text-[10px] text-muted-foreground">{f.message}</p>
+                      <div className="flex gap-1">
+                        <button
+                          onClick={() => handleUseExisting(f)}
+                          className="text-[10px] bg-amber-500/10 hover:bg-amber-500/20 text-amber-600 px-2 py-0.5 rounded border border-amber-500/30 transition-colors font-bold"
+                        >
+                          Use existing
+                        </button>
+                        <button
+                          onClick={() => handleUploadAnyway(f)}
+                          className="text-[10px] text-muted-foreground hover:text-foreground px-2 py-0.5 rounded border border-border transition-colors"
+                        >
+                          Upload anyway
+                        </button>
+                      </div>
+                    </div>
+                  ) : f.status === 'requires_password' ? (
+                    <form onSubmit={(e) => handleUnlock(e, f)} className="space-y-1">
+                      <div className="text-xs flex justify-between text-muted-foreground">
+                        <span className="truncate max-w-[150px]">{f.name}</span>
+                        <span className="text-amber-500">locked</span>
+                      </div>
+                      <div className="flex gap-1">
+                        <input
+                          type="password"
+                          name="password"
+                          placeholder="PDF password"
+                          autoComplete="off"
+                          className="flex-1 min-w-0 text-[10px] bg-background border border-border rounded px-2 py-0.5 outline-none focus:ring-1 focus:ring-primary"
+                        />
+                        <button
+                          type="submit"
+                          className="text-[10px] bg-amber-500/10 hover:bg-amber-500/20 text-amber-600 px-2 py-0.5 rounded border border-amber-500/30 transition-colors font-bold"
+                        >
+                          Unlock
+                        </button>
+                      </div>
+                    </form>
                   ) : (
                     <div className="text-xs flex justify-between text-muted-foreground">
-                      <span className="truncate max-w-[150px]">{f.file.name}</span>
+                      <span className="truncate max-w-[150px]" title={f.versionOf ? `New version of ${f.versionOf.name}` : undefined}>
+                        {f.versionOf && <History className="inline w-3 h-3 mr-1" />}
+                        {f.url && <Link2 className="inline w-3 h-3 mr-1" />}
+                        {f.name}
+                      </span>
                       <span className={
                         f.status === 'completed' ? 'text-green-500' :
                           f.status === 'error' ? 'text-destructive' :
                             f.status === 'requires_ocr' ? 'text-amber-500' :
                               'text-primary'
                       }>
-                        {f.status === 'requires_ocr' ? (
+                        {f.status === 'requires_ocr' && f.ocrEstimate && !f.ocrEstimate.canRunSync ? (
+                          <button
+                            onClick={() => handleRunAsyncOCR(f)}
+                            title={f.ocrEstimate.warning}
+                            className="text-[10px] bg-amber-500/10 hover:bg-amber-500/20 text-amber-600 px-2 py-0.5 rounded border border-amber-500/30 transition-colors font-bold"
+                          >
+                            Run async OCR
+                          </button>
+                        ) : f.status === 'requires_ocr' ? (
                           <button
                             onClick={() => handleRunOCR(f)}
                             className="text-[10px] bg-amber-500/10 hover:bg-amber-500/20 text-amber-600 px-2 py-0.5 rounded border border-amber-500/30 transition-colors font-bold"
                           >
                             Run OCR
                           </button>
+                        ) : f.status === 'ocr_queued' ? (
+                          <span className="flex items-center gap-2">
+                            OCR {f.jobProgress ? `${f.jobProgress.pagesCompleted}/${f.jobProgress.pageCount}` : 'queued'}
+                            <button
+                              onClick={() => handleCancelOCRJob(f)}
+                              className="text-[10px] text-muted-foreground hover:text-destructive transition-colors"
+                            >
+                              Cancel
+                            </button>
+                          </span>
+                        ) : f.status === 'processing' && f.archiveProgress ? (
+                          <span title={f.archiveProgress.current}>{f.archiveProgress.done}/{f.archiveProgress.total} files</span>
                         ) : f.status}
                       </span>
                     </div>
@@ -311,46 +833,170 @@ export default function Home() {
                 <p className="text-xs text-muted-foreground">No documents yet</p>
               </div>
             ) : (
-              userDocs.map(doc => (
-                <div
-                  key={doc.id}
-                  onClick={() => toggleSelection(doc.id)}
-                  className={cn(
-                    "group flex items-center gap-3 p-3 rounded-lg border transition-all cursor-pointer",
-                    selectedDocIds.includes(doc.id)
-                      ? "bg-primary/10 border-primary/50"
-                      : "bg-card border-border hover:border-primary/30 hover:bg-muted/50"
+              listRows.map(({ doc, group, versionCount, isOlderVersion, inArchive, archiveHeader, collapsedInArchive }) => (
+                <Fragment key={doc.id}>
+                  {/* Archive entries, under the name of the .zip they came from */}
+                  {archiveHeader && (
+                    <div
+                      onClick={() => toggleArchive(archiveHeader.name)}
+                      className="flex items-center gap-2 px-3 py-2 rounded-lg border border-border bg-muted/30 hover:bg-muted/50 cursor-pointer transition-colors"
+                    >
+                      <FileArchive className="w-4 h-4 text-muted-foreground shrink-0" />
+                      <span className="flex-1 min-w-0 text-sm font-medium text-muted-foreground truncate" title={archiveHeader.name}>{archiveHeader.name}</span>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); selectArchive(archiveHeader.docIds) }}
+                        className="px-1.5 py-0.5 rounded bg-muted text-muted-foreground text-[10px] hover:text-foreground transition-colors shrink-0"
+                        title="Select every file of this archive"
+                      >
+                        {archiveHeader.docIds.length} files
+                      </button>
+                      <ChevronRight className={cn("w-3.5 h-3.5 text-muted-foreground transition-transform", !collapsedInArchive && "rotate-90")} />
+                    </div>
                   )}
-                >
-                  {/* Select Checkbox/Indicator */}
-                  <div className={cn(
-                    "w-4 h-4 rounded border flex items-center justify-center transition-colors shrink-0",
-                    selectedDocIds.includes(doc.id) ? "bg-primary border-primary" : "border-muted-foreground group-hover:border-foreground"
-                  )}>
-                    {selectedDocIds.includes(doc.id) && <ChevronRight className="w-3 h-3 text-primary-foreground" />}
-                  </div>
-
-                  <div className="flex-1 min-w-0 overflow-hidden">
-                    <p
-                      className={cn("text-sm font-medium truncate", selectedDocIds.includes(doc.id) ? "text-primary" : "text-muted-foreground group-hover:text-foreground")}
-                      title={doc.name}
+                  {!collapsedInArchive && (
+                    <div
+                      onClick={() => toggleSelection(doc.id)}
+                      className={cn(
+                        "group flex items-center gap-3 p-3 rounded-lg border transition-all cursor-pointer",
+                        (isOlderVersion || inArchive) && "ml-4",
+                        isOlderVersion && "py-2 opacity-80",
+                        selectedDocIds.includes(doc.id)
+                          ? "bg-primary/10 border-primary/50"
+                          : "bg-card border-border hover:border-primary/30 hover:bg-muted/50"
+                      )}
                     >
-                      {doc.name}
-                    </p>
-                  </div>
-
-                  {/* Delete Button */}
-                  <button
-                    onClick={(e) => handleDelete(e, doc.id)}
-                    className={cn(
-                      "cursor-pointer p-1.5 rounded hover:bg-destructive/10 hover:text-destructive transition-colors",
-                      selectedDocIds.includes(doc.id) ? "opacity-100 text-muted-foreground" : "opacity-0 group-hover:opacity-100 text-muted-foreground"
-                    )}
-                    title="Delete Document"
-                  >
-                    <Trash2 className="w-3.5 h-3.5" />
-                  </button>
-                </div>
+                      {/* Select Checkbox/Indicator */}
+                      <div className={cn(
+                        "w-4 h-4 rounded border flex items-center justify-center transition-colors shrink-0",
+                        selectedDocIds.includes(doc.id) ? "bg-primary border-primary" : "border-muted-foreground group-hover:border-foreground"
+                      )}>
+                        {selectedDocIds.includes(doc.id) && <ChevronRight className="w-3 h-3 text-primary-foreground" />}
+                      </div>
+
+                      <div className="flex-1 min-w-0 overflow-hidden">
+                        <p
+                          className={cn("text-sm font-medium truncate", selectedDocIds.includes(doc.id) ? "text-primary" : "text-muted-foreground group-hover:text-foreground")}
+                          title={doc.name}
+                        >
+                          {doc.name}
+                        </p>
+                        {isOlderVersion && (
+                          <p className="text-[10px] text-muted-foreground">
+                            Version {doc.version} · {new Date(doc.created_at).toLocaleDateString()} · searched only when selected
+                          </p>
+                        )}
+                        {doc.status && doc.status !== 'ready' && (
+                          <p
+                            className={cn(
+                              "text-[10px] truncate",
+                              doc.status === 'failed' ? "text-destructive" :
+                                doc.status === 'partial' || isStalled(doc.status, doc.status_updated_at) ? "text-amber-500" :
+                                  "text-muted-foreground"
+                            )}
+                            title={doc.failure_reason || undefined}
+                          >
+                            {isStalled(doc.status, doc.status_updated_at) ? 'Interrupted' : DOC_STATUS_LABELS[doc.status as DocumentStatus]}
+                            {doc.status === 'indexing' && doc.total_pages ? ` · ${doc.pages_indexed}/${doc.total_pages} pages` : ''}
+                            {doc.chunks_stored > 0 ? ` · ${doc.chunks_stored} chunks` : ''}
+                            {doc.failure_reason ? ` · ${doc.failure_reason}` : ''}
+                          </p>
+                        )}
+                      </div>
+
+                      {/* Low-confidence OCR pages awaiting review */}
+                      {doc.metadata?.lowConfidencePages?.length > 0 && (
+                        <button
+                          onClick={(e) => { e.stopPropagation(); setReviewDoc({ id: doc.id, name: doc.name }) }}
+                          className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-500 text-[10px] hover:bg-amber-500/20 transition-colors shrink-0"
+                          title="Review low-confidence OCR pages"
+                        >
+                          <AlertTriangle className="w-3 h-3" />
+                          {doc.metadata.lowConfidencePages.length}
+                        </button>
+                      )}
+
+                      {/* Indexing stopped part-way */}
+                      {doc.indexing_source && (!isInProgress(doc.status) || isStalled(doc.status, doc.status_updated_at)) && (
+                        <button
+                          onClick={(e) => handleResume(e, doc.id)}
+                          disabled={resumingDocId === doc.id}
+                          className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-blue-500/10 text-blue-500 text-[10px] hover:bg-blue-500/20 transition-colors shrink-0 disabled:opacity-50"
+                          title={`Resume indexing${doc.last_indexed_page ? ` after page ${doc.last_indexed_page}` : ''}`}
+                        >
+                          <RotateCw className={cn("w-3 h-3", resumingDocId === doc.id && "animate-spin")} />
+                          Resume
+                        </button>
+                      )}
+
+                      {/* Version history */}
+                      {versionCount > 1 && !isOlderVersion && (
+                        <button
+                          onClick={(e) => { e.stopPropagation(); toggleVersionHistory(group) }}
+                          className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-muted text-muted-foreground text-[10px] hover:text-foreground transition-colors shrink-0"
+                          title={expandedVersionGroups.includes(group) ? 'Hide older versions' : 'Show older versions'}
+                        >
+                          <History className="w-3 h-3" />
+                          v{doc.version}
+                        </button>
+                      )}
+
+                      {/* Upload New Version */}
+                      {!isOlderVersion && (
+                        <label
+                          onClick={(e) => e.stopPropagation()}
+                          className={cn(
+                            "cursor-pointer p-1.5 rounded hover:bg-muted hover:text-foreground transition-colors text-muted-foreground",
+                            selectedDocIds.includes(doc.id) ? "opacity-100" : "opacity-0 group-hover:opacity-100"
+                          )}
+                          title="Upload New Version"
+                        >
+                          <FilePlus className="w-3.5 h-3.5" />
+                          <input type="file" className="hidden" accept={DOCUMENT_ACCEPT} onChange={(e) => handleVersionSelect(e, doc)} />
+                        </label>
+                      )}
+
+                      {/* Original Image Preview */}
+                      {doc.url && doc.type?.startsWith('image/') && (
+                        <a
+                          href={doc.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          onClick={(e) => e.stopPropagation()}
+                          className="p-1.5 rounded hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+                          title="View Original Image"
+                        >
+                          <ImageIcon className="w-3.5 h-3.5" />
+                        </a>
+                      )}
+
+                      {/* Source Page (added from URL) */}
+                      {doc.url && !doc.type?.startsWith('image/') && (
+                        <a
+                          href={doc.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          onClick={(e) => e.stopPropagation()}
+                          className="p-1.5 rounded hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+                          title={doc.url}
+                        >
+                          <ExternalLink className="w-3.5 h-3.5" />
+                        </a>
+                      )}
+
+                      {/* Delete Button */}
+                      <button
+                        onClick={(e) => handleDelete(e, doc.id)}
+                        className={cn(
+                          "cursor-pointer p-1.5 rounded hover:bg-destructive/10 hover:text-destructive transition-colors",
+                          selectedDocIds.includes(doc.id) ? "opacity-100 text-muted-foreground" : "opacity-0 group-hover:opacity-100 text-muted-foreground"
+                        )}
+                        title="Delete Document"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  )}
+                </Fragment>
               ))
             )}
           </div>
@@ -372,7 +1018,7 @@ export default function Home() {
 
         {/* Chat Area */}
         <div className="flex-1 h-full min-h-0">
-          <ChatInterface />
+          <ChatInterface documentIds={selectedDocIds} />
         </div>
       </div>
 
@@ -381,6 +1027,18 @@ export default function Home() {
         <PodcastStudio selectedDocumentIds={selectedDocIds} allDocuments={userDocs} />
       </div>
 
+      {reviewDoc && (
+        <OCRReviewPanel
+          documentId={reviewDoc.id}
+          documentName={reviewDoc.name}
+          onClose={() => setReviewDoc(null)}
+          onCorrected={(pageNumber) => {
+            setToast({ message: `Page ${pageNumber} corrected and re-embedded`, type: 'success' })
+            loadUserDocs()
+          }}
+        />
+      )}
+
       {toast && (
         <Toast
           message={toast.message}
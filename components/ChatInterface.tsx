@@ -1,22 +1,30 @@
 'use client'
 
 import { useState, useRef, useEffect } from 'react'
-import { chat } from '@/app/actions'
+import { chat, type StructuredAnswer } from '@/app/actions'
 import { Send, Bot, User, Loader2, FileText } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { sourceLocation } from '@/lib/source-location'
+import { OCR_LANGUAGES } from '@/lib/ocr-languages'
 
 interface Message {
     role: 'user' | 'assistant'
     content: string
     sources?: any[]
+    structured?: StructuredAnswer | null
 }
 
-export default function ChatInterface() {
+interface ChatInterfaceProps {
+    documentIds?: string[]  // Selected documents (empty = all)
+}
+
+export default function ChatInterface({ documentIds = [] }: ChatInterfaceProps) {
     const [messages, setMessages] = useState<Message[]>([
         { role: 'assistant', content: 'Hello! Upload a document on the left, then ask me anything about it.' }
     ])
     const [input, setInput] = useState('')
     const [isLoading, setIsLoading] = useState(false)
+    const [language, setLanguage] = useState('') // OCR language to restrict retrieval to ('' = any)
     const scrollRef = useRef<HTMLDivElement>(null)
 
     useEffect(() => {
@@ -47,13 +55,14 @@ export default function ChatInterface() {
                 content: m.content
             }))
 
-            const response = await chat(userMsg, history)
+            const response = await chat(userMsg, history, documentIds, language || undefined)
 
             if (response.success) {
                 setMessages(prev => [...prev, {
                     role: 'assistant',
                     content: response.message || "",
-                    sources: response.sources
+                    sources: response.sources,
+                    structured: response.structured
                 }])
             } else {
                 setMessages(prev => [...prev, { role: 'assistant', content: `Error: ${response.error}` }])
@@ -89,6 +98,39 @@ export default function ChatInterface() {
                         )}>
                             <p className="whitespace-pre-wrap">{m.content}</p>
 
+                            {/* Computed table (structured query over CSV rows) */}
+                            {m.structured && (
+                                <div className="mt-4 pt-3 border-t border-border/20 space-y-2">
+                                    <p className="text-xs font-semibold opacity-70">
+                                        Computed from {m.structured.documentName} ({m.structured.rowsMatched} of {m.structured.rowsScanned} rows matched{m.structured.truncated ? ', table truncated' : ''})
+                                    </p>
+                                    <div className="overflow-x-auto rounded border border-border/20">
+                                        <table className="text-xs w-full">
+                                            <thead className="bg-background/20">
+                                                <tr>
+                                                    {m.structured.columns.map(col => (
+                                                        <th key={col} className="px-2 py-1 text-left font-semibold">{col}</th>
+                                                    ))}
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {m.structured.rows.map((row, r) => (
+                                                    <tr key={r} className="border-t border-border/10">
+                                                        {row.map((cell, c) => (
+                                                            <td key={c} className="px-2 py-1">{cell === null ? '' : String(cell)}</td>
+                                                        ))}
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                    <details className="text-xs">
+                                        <summary className="cursor-pointer opacity-70">Query</summary>
+                                        <pre className="mt-1 p-2 rounded bg-background/20 overflow-x-auto font-mono">{m.structured.query}</pre>
+                                    </details>
+                                </div>
+                            )}
+
                             {/* Sources/Citations */}
                             {m.sources && m.sources.length > 0 && (
                                 <div className="mt-4 pt-3 border-t border-border/20">
@@ -97,7 +139,7 @@ export default function ChatInterface() {
                                         {m.sources.map((s: any, idx: number) => (
                                             <span key={idx} className="text-xs bg-background/20 px-2 py-1 rounded border border-border/20 flex items-center gap-1">
                                                 <FileText className="w-3 h-3" />
-                                                Match {(s.similarity * 100).toFixed(0)}%
+                                                {sourceLocation(s.metadata) && `${sourceLocation(s.metadata)} · `}Match {(s.similarity * 100).toFixed(0)}%
                                             </span>
                                         ))}
                                     </div>
@@ -121,6 +163,20 @@ export default function ChatInterface() {
 
             {/* Input Area */}
             <form onSubmit={handleSubmit} className="p-4 bg-card/50 border-t border-border backdrop-blur-sm">
+                {/* Only OCR'd documents record a language; filtering leaves the others out */}
+                <label className="flex items-center gap-2 mb-2 text-xs text-muted-foreground">
+                    Search
+                    <select
+                        value={language}
+                        onChange={(e) => setLanguage(e.target.value)}
+                        className="bg-background border border-border text-foreground rounded-md px-2 py-1 outline-none"
+                    >
+                        <option value="">All documents</option>
+                        {OCR_LANGUAGES.map(lang => (
+                            <option key={lang.code} value={lang.code}>Scans in {lang.label}</option>
+                        ))}
+                    </select>
+                </label>
                 <div className="relative">
                     <input
                         type="text"
@@ -3,6 +3,10 @@
 import { useState, useEffect, useCallback } from 'react'
 import { createWorker, Worker } from 'tesseract.js'
 import * as pdfjsLib from 'pdfjs-dist'
+import { OCR_AUTO_LANGUAGE, isAutoLanguage } from '@/lib/ocr-languages'
+import { detectOCRLanguage } from '@/lib/ocr-language-detection'
+import { flattenWords, isLowConfidence, PREVIEW_MAX_WIDTH } from '@/lib/ocr-review'
+import type { OCRWord } from '@/lib/pdf-pipeline'
 
 // Configure PDF.js worker for browser
 if (typeof window !== 'undefined') {
@@ -16,15 +20,42 @@ interface OCRProgress {
     percentComplete: number
 }
 
+export interface OCRPage {
+    pageNumber: number
+    text: string
+    confidence?: number     // Mean word confidence (0-100)
+    words?: OCRWord[]       // Per-word confidences for per-chunk scores
+    preview?: string        // JPEG data URL of the rendered page (low-confidence pages only)
+}
+
+// Downscaled JPEG of a rendered page for low-confidence review
+function renderPreview(canvas: HTMLCanvasElement): string {
+    const scale = Math.min(1, PREVIEW_MAX_WIDTH / canvas.width)
+    const preview = document.createElement('canvas')
+    preview.width = Math.round(canvas.width * scale)
+    preview.height = Math.round(canvas.height * scale)
+    preview.getContext('2d')!.drawImage(canvas, 0, 0, preview.width, preview.height)
+    return preview.toDataURL('image/jpeg', 0.7)
+}
+
+export interface OCRLanguageResult {
+    language: string    // Tesseract language(s) used, e.g. 'deu' or 'eng+fra'
+    script?: string     // Set when auto-detected
+}
+
 interface ClientOCRProcessorProps {
     file: File
-    onComplete: (text: string) => void
+    password?: string
+    language?: string   // Tesseract language(s) or 'auto' (detect from the first page)
+    onComplete: (text: string, pages: OCRPage[], language: OCRLanguageResult) => void
     onError: (error: string) => void
     onCancel?: () => void
 }
 
 export default function ClientOCRProcessor({
     file,
+    password,
+    language = OCR_AUTO_LANGUAGE,
     onComplete,
     onError,
     onCancel
@@ -45,17 +76,13 @@ export default function ClientOCRProcessor({
             setProgress(p => ({ ...p, phase: 'loading', percentComplete: 5 }))
 
             const arrayBuffer = await file.arrayBuffer()
-            const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise
+            const pdf = await pdfjsLib.getDocument({ data: arrayBuffer, password }).promise
             const totalPages = pdf.numPages
 
             setProgress(p => ({ ...p, totalPages, percentComplete: 10 }))
 
-            // Initialize Tesseract worker
-            worker = await createWorker('eng', 1, {
-                logger: () => { } // Suppress logging
-            })
-
-            const textParts: string[] = []
+            const pages: OCRPage[] = []
+            let resolved: OCRLanguageResult = { language }
 
             // Process each page
             for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
@@ -82,11 +109,27 @@ export default function ClientOCRProcessor({
                     viewport: viewport
                 }).promise
 
+                // Initialize Tesseract once the first page is rendered (auto-detect needs it)
+                if (!worker) {
+                    if (isAutoLanguage(language)) {
+                        resolved = await detectOCRLanguage(canvas)
+                    }
+                    worker = await createWorker(resolved.language, 1, {
+                        logger: () => { } // Suppress logging
+                    })
+                }
+
                 // OCR the rendered page
                 setProgress(p => ({ ...p, phase: 'recognizing' }))
 
-                const { data: { text } } = await worker.recognize(canvas)
-                textParts.push(text)
+                const { data } = await worker.recognize(canvas, {}, { text: true, blocks: true })
+                pages.push({
+                    pageNumber: pageNum,
+                    text: data.text.trim(),
+                    confidence: data.confidence,
+                    words: flattenWords(data.blocks),
+                    preview: isLowConfidence(data.confidence) ? renderPreview(canvas) : undefined
+                })
 
                 // Clean up canvas
                 canvas.width = 0
@@ -108,14 +151,14 @@ export default function ClientOCRProcessor({
                 percentComplete: 100
             })
 
-            const fullText = textParts.join('\n\n').trim()
+            const fullText = pages.map(p => p.text).join('\n\n').trim()
 
             if (!fullText || fullText.length < 10) {
                 onError('No text could be extracted from this PDF')
                 return
             }
 
-            onComplete(fullText)
+            onComplete(fullText, pages, resolved)
 
         } catch (err) {
             const error = err as Error
@@ -127,7 +170,7 @@ export default function ClientOCRProcessor({
             }
             setIsProcessing(false)
         }
-    }, [file, onComplete, onError])
+    }, [file, password, language, onComplete, onError])
 
     useEffect(() => {
         processOCR()
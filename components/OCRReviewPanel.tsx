@@ -0,0 +1,145 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { getOCRReviewPages, correctOCRPage } from '@/app/actions'
+import type { OCRReviewPage } from '@/lib/ocr-review'
+import { X, Loader2, Check, ImageOff } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+interface OCRReviewPanelProps {
+    documentId: string
+    documentName: string
+    onClose: () => void
+    onCorrected: (pageNumber: number) => void
+}
+
+export default function OCRReviewPanel({ documentId, documentName, onClose, onCorrected }: OCRReviewPanelProps) {
+    const [pages, setPages] = useState<OCRReviewPage[]>([])
+    const [selected, setSelected] = useState<number | null>(null)
+    const [draft, setDraft] = useState('')
+    const [status, setStatus] = useState<'loading' | 'idle' | 'saving' | 'error'>('loading')
+    const [error, setError] = useState<string | null>(null)
+
+    const selectPage = useCallback((page: OCRReviewPage) => {
+        setSelected(page.pageNumber)
+        setDraft(page.text)
+        setError(null)
+    }, [])
+
+    useEffect(() => {
+        getOCRReviewPages(documentId).then(result => {
+            if (result.success && result.pages) {
+                setPages(result.pages)
+                if (result.pages.length > 0) selectPage(result.pages[0])
+                setStatus('idle')
+            } else {
+                setError(result.error || 'Failed to load pages')
+                setStatus('error')
+            }
+        })
+    }, [documentId, selectPage])
+
+    const current = pages.find(p => p.pageNumber === selected)
+
+    const handleSave = async () => {
+        if (!current) return
+        setStatus('saving')
+        setError(null)
+
+        const result = await correctOCRPage(documentId, current.pageNumber, draft)
+        if (result.success) {
+            setPages(prev => prev.map(p => p.pageNumber === current.pageNumber ? { ...p, text: draft, corrected: true } : p))
+            onCorrected(current.pageNumber)
+            setStatus('idle')
+        } else {
+            setError(result.error || 'Failed to save correction')
+            setStatus('idle')
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-6" onClick={onClose}>
+            <div
+                className="flex flex-col w-full max-w-5xl h-[80vh] bg-card border border-border rounded-xl shadow-xl overflow-hidden"
+                onClick={(e) => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+                    <div className="min-w-0">
+                        <p className="text-sm font-medium text-foreground truncate">Review OCR: {documentName}</p>
+                        <p className="text-[10px] text-muted-foreground">Correct the recognized text; the page is re-embedded on save.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1.5 rounded hover:bg-muted text-muted-foreground hover:text-foreground" title="Close">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+
+                {status === 'loading' ? (
+                    <div className="flex-1 flex items-center justify-center text-muted-foreground">
+                        <Loader2 className="w-5 h-5 animate-spin" />
+                    </div>
+                ) : pages.length === 0 ? (
+                    <div className="flex-1 flex items-center justify-center text-xs text-muted-foreground">
+                        {error || 'No low-confidence pages in this document.'}
+                    </div>
+                ) : (
+                    <div className="flex flex-1 min-h-0">
+                        {/* Page list */}
+                        <div className="w-28 shrink-0 border-r border-border overflow-y-auto p-2 space-y-1">
+                            {pages.map(page => (
+                                <button
+                                    key={page.pageNumber}
+                                    onClick={() => selectPage(page)}
+                                    className={cn(
+                                        "w-full text-left px-2 py-1.5 rounded text-xs transition-colors",
+                                        page.pageNumber === selected ? "bg-primary/10 text-primary" : "text-muted-foreground hover:bg-muted"
+                                    )}
+                                >
+                                    <span className="flex items-center justify-between">
+                                        Page {page.pageNumber}
+                                        {page.corrected && <Check className="w-3 h-3 text-green-500" />}
+                                    </span>
+                                    {page.confidence !== null && (
+                                        <span className="block text-[10px] opacity-70">{Math.round(page.confidence)}% confidence</span>
+                                    )}
+                                </button>
+                            ))}
+                        </div>
+
+                        {/* Rendered page */}
+                        <div className="flex-1 min-w-0 overflow-auto bg-muted/30 p-3">
+                            {current?.previewUrl ? (
+                                // eslint-disable-next-line @next/next/no-img-element
+                                <img src={current.previewUrl} alt={`Page ${current.pageNumber}`} className="w-full h-auto rounded border border-border" />
+                            ) : (
+                                <div className="h-full flex flex-col items-center justify-center gap-2 text-xs text-muted-foreground">
+                                    <ImageOff className="w-5 h-5" />
+                                    No preview available
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Recognized text */}
+                        <div className="flex-1 min-w-0 flex flex-col p-3 gap-2">
+                            <textarea
+                                value={draft}
+                                onChange={(e) => setDraft(e.target.value)}
+                                className="flex-1 w-full resize-none rounded border border-border bg-background p-2 text-xs font-mono text-foreground focus:outline-none focus:border-primary/50"
+                                spellCheck
+                            />
+                            {error && <p className="text-[10px] text-destructive">{error}</p>}
+                            <button
+                                onClick={handleSave}
+                                disabled={status === 'saving' || !current || draft === current.text}
+                                className="self-end flex items-center gap-1.5 px-3 py-1.5 rounded bg-primary text-primary-foreground text-xs font-medium disabled:opacity-50"
+                            >
+                                {status === 'saving' && <Loader2 className="w-3 h-3 animate-spin" />}
+                                Save &amp; Re-embed
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
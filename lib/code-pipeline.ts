@@ -0,0 +1,323 @@
+/**
+ * Code Pipeline
+ *
+ * Language-aware source file ingestion:
+ * - Language detected from the file extension
+ * - Files split into units at declaration boundaries (function, class, ...)
+ *   with leading comments / decorators kept on their declaration
+ * - Oversized units split again at their nested declarations (methods),
+ *   named "Class.method"
+ * - File path, language, symbol and line range recorded in chunk metadata
+ *
+ * Kept free of runtime dependencies so the client can read CODE_EXTENSIONS.
+ */
+
+import type { SupportedTextSplitterLanguage } from '@langchain/textsplitters';
+import type { ExtractedPage } from './pdf-pipeline';
+
+// ============================================================================
+// Language Definitions
+// ============================================================================
+
+export interface CodeLanguage {
+    id: string;
+    extensions: string[];
+    // Declaration lines; group 1 captures the indentation, group 2 the symbol name
+    declarations: RegExp[];
+    // Lines directly above a declaration that belong to it (comments, decorators)
+    leadingLine: RegExp;
+    // Fallback splitter for units with no nested declarations
+    splitterLanguage?: SupportedTextSplitterLanguage;
+}
+
+// Control-flow keywords that look like `name(...) {` in C-like languages
+const NOT_A_NAME = '(?!(?:if|for|foreach|while|switch|catch|return|else|do|try|using|lock|sizeof|new|throw)\\b)';
+const C_COMMENT = /^\s*(\/\/|\/\*|\*|@|\[)/;
+const HASH_COMMENT = /^\s*(#|@)/;
+
+const LANGUAGES: CodeLanguage[] = [
+    {
+        id: 'typescript',
+        extensions: ['.ts', '.tsx', '.mts', '.cts'],
+        declarations: [
+            /^(\s*)(?:export\s+(?:default\s+)?)?(?:declare\s+)?(?:async\s+)?function\s*\*?\s*([\w$]+)/,
+            /^(\s*)(?:export\s+(?:default\s+)?)?(?:declare\s+)?(?:abstract\s+)?class\s+([\w$]+)/,
+            /^(\s*)(?:export\s+)?(?:declare\s+)?(?:interface|type|enum|namespace)\s+([\w$]+)/,
+            /^(\s*)(?:export\s+)?(?:const|let|var)\s+([\w$]+)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[\w$]+\s*=>)/,
+            new RegExp(`^(\\s+)(?:(?:public|private|protected|static|readonly|async|override|abstract|get|set)\\s+)*${NOT_A_NAME}([\\w$]+)\\s*(?:<[^>]*>)?\\([^)]*\\)?\\s*(?::[^{]+)?\\{\\s*$`),
+        ],
+        leadingLine: C_COMMENT,
+        splitterLanguage: 'js',
+    },
+    {
+        id: 'javascript',
+        extensions: ['.js', '.jsx', '.mjs', '.cjs'],
+        declarations: [
+            /^(\s*)(?:export\s+(?:default\s+)?)?(?:async\s+)?function\s*\*?\s*([\w$]+)/,
+            /^(\s*)(?:export\s+(?:default\s+)?)?class\s+([\w$]+)/,
+            /^(\s*)(?:export\s+)?(?:const|let|var)\s+([\w$]+)\s*=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*=>|[\w$]+\s*=>)/,
+            /^(\s*)(?:module\.)?exports\.([\w$]+)\s*=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*=>)/,
+            new RegExp(`^(\\s+)(?:(?:static|async|get|set)\\s+)*${NOT_A_NAME}([\\w$]+)\\s*\\([^)]*\\)?\\s*\\{\\s*$`),
+        ],
+        leadingLine: C_COMMENT,
+        splitterLanguage: 'js',
+    },
+    {
+        id: 'python',
+        extensions: ['.py', '.pyi'],
+        declarations: [
+            /^(\s*)(?:async\s+)?def\s+(\w+)/,
+            /^(\s*)class\s+(\w+)/,
+        ],
+        leadingLine: HASH_COMMENT,
+        splitterLanguage: 'python',
+    },
+    {
+        id: 'go',
+        extensions: ['.go'],
+        declarations: [
+            /^()func\s+(?:\([^)]*\)\s*)?(\w+)/,
+            /^()type\s+(\w+)/,
+        ],
+        leadingLine: /^\s*\/\//,
+        splitterLanguage: 'go',
+    },
+    {
+        id: 'rust',
+        extensions: ['.rs'],
+        declarations: [
+            /^(\s*)(?:pub(?:\([^)]*\))?\s+)?(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?(?:extern\s+"[^"]*"\s+)?fn\s+(\w+)/,
+            /^(\s*)(?:pub(?:\([^)]*\))?\s+)?(?:struct|enum|trait|union|mod)\s+(\w+)/,
+            /^(\s*)impl(?:<[^>]*>)?\s+(?:[\w:<>]+\s+for\s+)?(\w+)/,
+        ],
+        leadingLine: /^\s*(\/\/|#\[|#!\[)/,
+        splitterLanguage: 'rust',
+    },
+    {
+        id: 'java',
+        extensions: ['.java'],
+        declarations: [
+            /^(\s*)(?:(?:public|private|protected|static|final|abstract|sealed)\s+)*(?:class|interface|enum|record|@interface)\s+(\w+)/,
+            new RegExp(`^(\\s+)(?:(?:public|private|protected|static|final|abstract|synchronized|native|default)\\s+)*(?:<[^>]+>\\s+)?[\\w<>\\[\\],.?]+\\s+${NOT_A_NAME}(\\w+)\\s*\\([^;]*$`),
+        ],
+        leadingLine: C_COMMENT,
+        splitterLanguage: 'java',
+    },
+    {
+        id: 'kotlin',
+        extensions: ['.kt', '.kts'],
+        declarations: [
+            /^(\s*)(?:(?:public|private|protected|internal|abstract|open|sealed|data|enum|inner|value|annotation)\s+)*(?:class|interface|object)\s+(\w+)/,
+            /^(\s*)(?:(?:public|private|protected|internal|override|open|abstract|suspend|inline|operator|infix)\s+)*fun\s+(?:<[^>]+>\s+)?(?:[\w.]+\.)?(\w+)/,
+        ],
+        leadingLine: C_COMMENT,
+    },
+    {
+        id: 'csharp',
+        extensions: ['.cs'],
+        declarations: [
+            /^(\s*)namespace\s+([\w.]+)/,
+            /^(\s*)(?:(?:public|private|protected|internal|static|sealed|abstract|partial|readonly)\s+)*(?:class|interface|enum|struct|record)\s+(\w+)/,
+            new RegExp(`^(\\s+)(?:(?:public|private|protected|internal|static|virtual|override|abstract|async|sealed|extern|new)\\s+)*[\\w<>\\[\\],.?]+\\s+${NOT_A_NAME}(\\w+)\\s*(?:<[^>]+>)?\\([^;]*$`),
+        ],
+        leadingLine: C_COMMENT,
+    },
+    {
+        id: 'ruby',
+        extensions: ['.rb'],
+        declarations: [
+            /^(\s*)def\s+(?:self\.)?([\w?!=]+)/,
+            /^(\s*)(?:class|module)\s+([\w:]+)/,
+        ],
+        leadingLine: /^\s*#/,
+        splitterLanguage: 'ruby',
+    },
+    {
+        id: 'php',
+        extensions: ['.php'],
+        declarations: [
+            /^(\s*)(?:(?:public|private|protected|static|abstract|final)\s+)*function\s+&?(\w+)/,
+            /^(\s*)(?:(?:abstract|final)\s+)?(?:class|interface|trait|enum)\s+(\w+)/,
+        ],
+        leadingLine: /^\s*(\/\/|\/\*|\*|#)/,
+        splitterLanguage: 'php',
+    },
+    {
+        id: 'cpp',
+        extensions: ['.c', '.h', '.cc', '.cpp', '.cxx', '.hpp', '.hh'],
+        declarations: [
+            /^(\s*)(?:template\s*<[^>]*>\s*)?(?:class|struct|namespace|union)\s+(\w+)(?![^{;]*;)/,
+            new RegExp(`^()(?:[\\w:*&<>,]+\\s+)+[*&]*${NOT_A_NAME}([\\w:~]+)\\s*\\([^;]*$`),
+        ],
+        leadingLine: /^\s*(\/\/|\/\*|\*)/,
+        splitterLanguage: 'cpp',
+    },
+    {
+        id: 'swift',
+        extensions: ['.swift'],
+        declarations: [
+            /^(\s*)(?:(?:public|private|fileprivate|internal|open|final)\s+)*(?:class|struct|enum|protocol|extension|actor)\s+(\w+)/,
+            /^(\s*)(?:(?:public|private|fileprivate|internal|open|static|override|mutating|final)\s+)*func\s+(\w+)/,
+        ],
+        leadingLine: C_COMMENT,
+        splitterLanguage: 'swift',
+    },
+    {
+        id: 'shell',
+        extensions: ['.sh', '.bash', '.zsh'],
+        declarations: [
+            /^(\s*)(?:function\s+)?([\w-]+)\s*\(\)\s*\{?/,
+            /^(\s*)function\s+([\w-]+)/,
+        ],
+        leadingLine: /^\s*#(?!!)/,
+    },
+    {
+        id: 'sql',
+        extensions: ['.sql'],
+        declarations: [
+            /^(\s*)create\s+(?:or\s+replace\s+)?(?:function|procedure|table|view|materialized\s+view|policy|index|trigger|type)\s+(?:if\s+not\s+exists\s+)?([\w."]+)/i,
+        ],
+        leadingLine: /^\s*--/,
+    },
+];
+
+/**
+ * All file extensions handled as source code (for upload `accept` lists)
+ */
+export const CODE_EXTENSIONS: string[] = LANGUAGES.flatMap(l => l.extensions);
+
+/**
+ * Detect the language of a source file from its extension (null if not code)
+ */
+export function detectLanguage(fileName: string): CodeLanguage | null {
+    const dot = fileName.lastIndexOf('.');
+    if (dot === -1) return null;
+
+    const ext = fileName.slice(dot).toLowerCase();
+    return LANGUAGES.find(l => l.extensions.includes(ext)) || null;
+}
+
+export function getLanguage(id: string): CodeLanguage | null {
+    return LANGUAGES.find(l => l.id === id) || null;
+}
+
+// ============================================================================
+// Declaration Splitting
+// ============================================================================
+
+export interface CodeUnit {
+    symbol?: string;            // e.g. "AuthService.validateToken" (undefined for file preamble)
+    text: string;
+    startLine: number;          // 1-based, inclusive
+    endLine: number;
+}
+
+interface Declaration {
+    line: number;               // 0-based index into the file's lines
+    indent: number;
+    name: string;
+}
+
+function findDeclarations(lines: string[], language: CodeLanguage): Declaration[] {
+    const found: Declaration[] = [];
+
+    lines.forEach((line, idx) => {
+        for (const pattern of language.declarations) {
+            const match = line.match(pattern);
+            if (match?.[2]) {
+                found.push({ line: idx, indent: match[1].length, name: match[2] });
+                break;
+            }
+        }
+    });
+
+    return found;
+}
+
+/**
+ * Split lines [start, end) into units at the shallowest declarations in range
+ * (deeper than parentIndent). Units larger than maxChars are split again at
+ * their nested declarations; the parent's header becomes its own unit.
+ */
+function splitRange(
+    lines: string[],
+    declarations: Declaration[],
+    start: number,
+    end: number,
+    parent: string | undefined,
+    parentIndent: number,
+    language: CodeLanguage,
+    maxChars: number
+): CodeUnit[] {
+    const makeUnit = (from: number, to: number, symbol: string | undefined): CodeUnit => ({
+        symbol,
+        text: lines.slice(from, to).join('\n'),
+        startLine: from + 1,
+        endLine: to,
+    });
+
+    const inRange = declarations.filter(d => d.line >= start && d.line < end && d.indent > parentIndent);
+    if (inRange.length === 0) return [makeUnit(start, end, parent)];
+
+    const level = Math.min(...inRange.map(d => d.indent));
+    const boundaries = inRange.filter(d => d.indent === level);
+
+    // Leading comments / decorators move down with their declaration
+    const unitStart = (decl: Declaration) => {
+        let line = decl.line;
+        while (line - 1 >= start && language.leadingLine.test(lines[line - 1]) && lines[line - 1].trim()) line--;
+        return line;
+    };
+
+    const units: CodeUnit[] = [];
+    const firstStart = unitStart(boundaries[0]);
+    if (lines.slice(start, firstStart).some(l => l.trim())) {
+        units.push(makeUnit(start, firstStart, parent));
+    }
+
+    boundaries.forEach((decl, idx) => {
+        const from = unitStart(decl);
+        const to = idx + 1 < boundaries.length ? unitStart(boundaries[idx + 1]) : end;
+        const symbol = parent ? `${parent}.${decl.name}` : decl.name;
+        const unit = makeUnit(from, to, symbol);
+
+        const nested = declarations.some(d => d.line > decl.line && d.line < to && d.indent > level);
+        if (unit.text.length > maxChars && nested) {
+            units.push(...splitRange(lines, declarations, from, to, symbol, level, language, maxChars));
+        } else {
+            units.push(unit);
+        }
+    });
+
+    return units;
+}
+
+/**
+ * Split source code into declaration units (function, class, method, ...)
+ * Units without nested declarations are returned whole even when larger
+ * than maxChars; the caller falls back to a language-aware text splitter.
+ */
+export function splitCodeUnits(code: string, language: CodeLanguage, maxChars: number): CodeUnit[] {
+    const lines = code.split('\n');
+    const declarations = findDeclarations(lines, language);
+
+    return splitRange(lines, declarations, 0, lines.length, undefined, -1, language, maxChars)
+        .filter(unit => unit.text.trim());
+}
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+/**
+ * Source files are one "page" tagged with path and language;
+ * declaration-aware splitting happens in the vectorizer ('code' strategy)
+ */
+export function extractCode(buffer: Buffer, filePath: string, language: CodeLanguage): ExtractedPage[] {
+    return [{
+        pageNumber: 1,
+        text: buffer.toString('utf-8'),
+        source: 'code',
+        metadata: { filePath, language: language.id },
+    }];
+}
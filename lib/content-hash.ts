@@ -0,0 +1,90 @@
+/**
+ * Content Hashes
+ *
+ * Upload deduplication per user:
+ * - file_hash: SHA-256 of the uploaded bytes (exact re-upload)
+ * - text_hash: SHA-256 of the normalized extracted text (same content, different
+ *   bytes - e.g. a re-exported PDF or a re-scanned page)
+ *
+ * Ingestion routes check both before indexing; a match is reported as a
+ * duplicate unless the user chose to upload anyway.
+ */
+
+import { createHash } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PageText } from './vectorize-pipeline';
+
+// ============================================================================
+// Hashing
+// ============================================================================
+
+export function sha256(data: Buffer | string): string {
+    return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Whitespace, line endings and Unicode forms vary between extractions of the same content
+ */
+function normalizeForHash(text: string): string {
+    return text.normalize('NFKC').replace(/\s+/g, ' ').trim();
+}
+
+export function textHash(content: string | PageText[]): string {
+    const text = typeof content === 'string' ? content : content.map(p => p.text).join('\n');
+    return sha256(normalizeForHash(text));
+}
+
+// ============================================================================
+// Duplicate Lookup
+// ============================================================================
+
+export interface DuplicateDocument {
+    id: string;
+    name: string;
+    createdAt: string;
+    matchedOn: 'file' | 'text';
+}
+
+/**
+ * An existing (not failed) document of the user with the same bytes or text
+ */
+export async function findDuplicateDocument(
+    client: SupabaseClient,
+    userId: string,
+    hashes: { fileHash?: string; textHash?: string }
+): Promise<DuplicateDocument | null> {
+    const filters = [
+        hashes.fileHash ? `file_hash.eq.${hashes.fileHash}` : null,
+        hashes.textHash ? `text_hash.eq.${hashes.textHash}` : null,
+    ].filter(Boolean);
+    if (filters.length === 0) return null;
+
+    const { data, error } = await client
+        .from('documents')
+        .select('id, name, created_at, file_hash')
+        .eq('user_id', userId)
+        .neq('status', 'failed')
+        .or(filters.join(','))
+        .order('created_at', { ascending: true })
+        .limit(1);
+
+    if (error) {
+        // Don't block the upload on a failed lookup
+        console.error('[ContentHash] Duplicate lookup failed:', error.message);
+        return null;
+    }
+    if (!data || data.length === 0) return null;
+
+    const doc = data[0];
+    return {
+        id: doc.id,
+        name: doc.name,
+        createdAt: doc.created_at,
+        matchedOn: hashes.fileHash && doc.file_hash === hashes.fileHash ? 'file' : 'text',
+    };
+}
+
+export function duplicateMessage(duplicate: DuplicateDocument): string {
+    const what = duplicate.matchedOn === 'file' ? 'This file' : 'A document with the same text';
+    return `${what} was already uploaded as "${duplicate.name}".`;
+}
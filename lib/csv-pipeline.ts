@@ -0,0 +1,204 @@
+/**
+ * CSV Pipeline
+ *
+ * Row-aware CSV ingestion:
+ * - Rows are never split; each "page" is a group of whole rows
+ * - Every group is a Markdown table with the column header repeated
+ * - Row range (1-based, header excluded) recorded in page metadata
+ * - Inferred schema (columns, types, row count) stored on the document
+ * - Typed rows returned for structured queries (see tabular-query.ts)
+ */
+
+import * as Papa from 'papaparse';
+import type { ExtractedPage } from './pdf-pipeline';
+import { DEFAULT_VECTORIZATION_CONFIG } from './vectorize-pipeline';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export interface CsvConfig {
+    chunkSize: number;          // Target characters per row group (matches vectorizer chunk size)
+    maxRowsPerChunk: number;    // Upper bound on rows per group
+}
+
+export const DEFAULT_CSV_CONFIG: CsvConfig = {
+    chunkSize: DEFAULT_VECTORIZATION_CONFIG.chunkSize,
+    maxRowsPerChunk: 50,
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CsvColumnType = 'integer' | 'number' | 'boolean' | 'date' | 'string' | 'empty';
+
+export interface CsvColumn {
+    name: string;
+    type: CsvColumnType;
+}
+
+export interface CsvSchema {
+    columns: CsvColumn[];
+    rowCount: number;
+    delimiter: string;
+}
+
+export type CsvValue = string | number | boolean | null;
+export type CsvRow = Record<string, CsvValue>;
+
+export interface CsvExtractionResult {
+    pages: ExtractedPage[];     // Row groups in file order
+    schema: CsvSchema;
+    rows: CsvRow[];             // Values coerced to their column type (empty → null)
+}
+
+// ============================================================================
+// Schema Inference
+// ============================================================================
+
+const INTEGER_PATTERN = /^[-+]?\d+$/;
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+const BOOLEAN_PATTERN = /^(true|false|yes|no)$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[-+]\d{2}:?\d{2})?)?$|^\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}$/;
+
+function inferValueType(value: string): Exclude<CsvColumnType, 'empty'> {
+    if (INTEGER_PATTERN.test(value)) return 'integer';
+    if (NUMBER_PATTERN.test(value)) return 'number';
+    if (BOOLEAN_PATTERN.test(value)) return 'boolean';
+    if (DATE_PATTERN.test(value)) return 'date';
+    return 'string';
+}
+
+/**
+ * Narrowest type that fits every non-empty value
+ * (integer widens to number; any other mix falls back to string)
+ */
+function inferColumnType(values: string[]): CsvColumnType {
+    const types = new Set(values.filter(v => v !== '').map(inferValueType));
+
+    if (types.size === 0) return 'empty';
+    if (types.size === 1) return [...types][0];
+    if (types.size === 2 && types.has('integer') && types.has('number')) return 'number';
+    return 'string';
+}
+
+function coerceValue(value: string, type: CsvColumnType): CsvValue {
+    if (value === '') return null;
+
+    switch (type) {
+        case 'integer':
+        case 'number':
+            return Number(value);
+        case 'boolean':
+            return /^(true|yes)$/i.test(value);
+        default:
+            return value;
+    }
+}
+
+/**
+ * Blank or duplicate header names get positional / suffixed names
+ */
+export function normalizeHeader(header: string[]): string[] {
+    const seen = new Map<string, number>();
+
+    return header.map((raw, idx) => {
+        const base = raw.trim() || `column_${idx + 1}`;
+        const count = seen.get(base) || 0;
+        seen.set(base, count + 1);
+        return count === 0 ? base : `${base}_${count + 1}`;
+    });
+}
+
+// ============================================================================
+// Row Grouping
+// ============================================================================
+
+function toCell(value: string): string {
+    return value.replace(/\s*\r?\n\s*/g, ' ').replace(/\|/g, '\\|').trim();
+}
+
+function toRow(cells: string[]): string {
+    return `| ${cells.join(' | ')} |`;
+}
+
+export interface RowGroup {
+    text: string;               // Markdown table: header, separator, rows
+    start: number;              // Index of the group's first row
+    end: number;                // Index after its last row
+}
+
+/**
+ * Group whole rows under a repeated header, up to the chunk size
+ * (also used for spreadsheet sheets, see xlsx-pipeline.ts)
+ */
+export function groupTableRows(columns: string[], rows: string[][], config: CsvConfig = DEFAULT_CSV_CONFIG): RowGroup[] {
+    const head = `${toRow(columns.map(toCell))}\n${toRow(columns.map(() => '---'))}`;
+    const groups: RowGroup[] = [];
+    let group: string[] = [];
+    let groupStart = 0;
+    let groupLength = head.length;
+
+    const flush = (end: number) => {
+        if (group.length === 0) return;
+        groups.push({ text: [head, ...group].join('\n'), start: groupStart, end });
+        group = [];
+        groupStart = end;
+        groupLength = head.length;
+    };
+
+    rows.forEach((row, idx) => {
+        const line = toRow(row.map(toCell));
+        if (group.length >= config.maxRowsPerChunk || (group.length > 0 && groupLength + line.length + 1 > config.chunkSize)) {
+            flush(idx);
+        }
+        group.push(line);
+        groupLength += line.length + 1;
+    });
+    flush(rows.length);
+
+    return groups;
+}
+
+// ============================================================================
+// Main Extraction
+// ============================================================================
+
+export function extractCsv(buffer: Buffer, config: CsvConfig = DEFAULT_CSV_CONFIG): CsvExtractionResult {
+    const startTime = Date.now();
+
+    const parsed = Papa.parse<string[]>(buffer.toString('utf-8').replace(/^\uFEFF/, ''), {
+        header: false,
+        skipEmptyLines: 'greedy',
+    });
+
+    const [rawHeader = [], ...rawRows] = parsed.data;
+    const columns = normalizeHeader(rawHeader);
+    const rows = rawRows.map(row => columns.map((_, idx) => (row[idx] ?? '').trim()));
+
+    const schema: CsvSchema = {
+        columns: columns.map((name, idx) => ({
+            name,
+            type: inferColumnType(rows.map(r => r[idx])),
+        })),
+        rowCount: rows.length,
+        delimiter: parsed.meta.delimiter,
+    };
+
+    // Group whole rows under a repeated header (row range 1-based, header excluded)
+    const pages: ExtractedPage[] = groupTableRows(columns, rows, config).map((group, idx) => ({
+        pageNumber: idx + 1,
+        text: group.text,
+        source: 'papaparse',
+        metadata: { rowStart: group.start + 1, rowEnd: group.end },
+    }));
+
+    const typedRows = rows.map(row => Object.fromEntries(
+        schema.columns.map((col, idx) => [col.name, coerceValue(row[idx], col.type)])
+    ));
+
+    console.log(`[CsvPipeline] ${schema.rowCount} rows, ${columns.length} columns, ${pages.length} row groups in ${Date.now() - startTime}ms`);
+
+    return { pages, schema, rows: typedRows };
+}
@@ -0,0 +1,106 @@
+/**
+ * Document Status
+ *
+ * Lifecycle of a documents row, kept in the database so the document list
+ * shows how ingestion ended (not only the transient upload queue):
+ *
+ *   pending → extracting → indexing → ready | partial | failed
+ *
+ * - partial: indexed, but truncated by the chunk budget or some chunks failed to store
+ * - failed: extraction or vectorization failed (failure_reason says why)
+ *
+ * Client-safe: only type imports.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { VectorizationResult } from './vectorize-pipeline';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DocumentStatus = 'pending' | 'extracting' | 'indexing' | 'ready' | 'partial' | 'failed';
+
+export interface DocumentProgress {
+    status?: DocumentStatus;
+    totalPages?: number;
+    pagesIndexed?: number;
+    chunksStored?: number;
+    lastIndexedPage?: number;       // Resume checkpoint (see indexing-checkpoint.ts)
+    failureReason?: string | null;
+}
+
+// A run that hasn't reported progress for this long was interrupted (e.g. the server restarted)
+export const STALLED_AFTER_MS = 10 * 60 * 1000;
+
+// ============================================================================
+// Updates
+// ============================================================================
+
+/**
+ * Write status/progress columns. Failures are logged, not thrown:
+ * a missed status update shouldn't fail the ingestion it describes.
+ */
+export async function updateDocumentStatus(
+    client: SupabaseClient,
+    documentId: string,
+    progress: DocumentProgress
+): Promise<void> {
+    const { error } = await client
+        .from('documents')
+        .update({
+            ...(progress.status !== undefined ? { status: progress.status } : {}),
+            ...(progress.totalPages !== undefined ? { total_pages: progress.totalPages } : {}),
+            ...(progress.pagesIndexed !== undefined ? { pages_indexed: progress.pagesIndexed } : {}),
+            ...(progress.chunksStored !== undefined ? { chunks_stored: progress.chunksStored } : {}),
+            ...(progress.lastIndexedPage !== undefined ? { last_indexed_page: progress.lastIndexedPage } : {}),
+            ...(progress.failureReason !== undefined ? { failure_reason: progress.failureReason } : {}),
+            status_updated_at: new Date().toISOString(),
+        })
+        .eq('id', documentId);
+
+    if (error) {
+        console.error(`[DocumentStatus] Update failed for ${documentId}:`, error.message);
+    }
+}
+
+/**
+ * Final status for a vectorization run
+ */
+export function indexingOutcome(result: VectorizationResult): DocumentProgress {
+    const counts = {
+        totalPages: result.totalPages,
+        pagesIndexed: result.pagesProcessed,
+        chunksStored: result.totalChunks,
+    };
+
+    if (!result.success) {
+        return { status: 'failed', ...counts, failureReason: result.failureReason || result.userMessage };
+    }
+
+    if (result.truncated) {
+        return { status: 'partial', ...counts, failureReason: 'Chunk limit reached; later pages were not indexed' };
+    }
+
+    if (result.failedChunks) {
+        return { status: 'partial', ...counts, failureReason: `${result.failedChunks} chunks could not be embedded or stored` };
+    }
+
+    return { status: 'ready', ...counts, failureReason: null };
+}
+
+// ============================================================================
+// Display
+// ============================================================================
+
+export function isInProgress(status: DocumentStatus | null | undefined): boolean {
+    return status === 'pending' || status === 'extracting' || status === 'indexing';
+}
+
+/**
+ * Still marked in progress, but nothing has been reported for a while
+ */
+export function isStalled(status: DocumentStatus | null | undefined, statusUpdatedAt: string | null | undefined): boolean {
+    if (!isInProgress(status) || !statusUpdatedAt) return false;
+    return Date.now() - new Date(statusUpdatedAt).getTime() > STALLED_AFTER_MS;
+}
@@ -0,0 +1,135 @@
+/**
+ * Document Versions
+ *
+ * Re-uploading under an existing document adds a version instead of replacing it:
+ * - Versions share documents.version_group (the first version's id; null on
+ *   single-version documents, whose group is their own id)
+ * - Only the latest version (is_latest) is searched by default; older ones stay
+ *   queryable when selected explicitly (match_documents include_document_ids)
+ * - Chunks whose normalized text is unchanged reuse the previous version's
+ *   embedding instead of calling the embed function again
+ * - A new version becomes latest once it is indexed, so chat keeps using the
+ *   previous one meanwhile
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { textHash } from './content-hash';
+import type { EmbedFunction } from './vectorize-pipeline';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface VersionTarget {
+    fields: {                           // documents columns for the new version
+        version_group: string;
+        version: number;
+        is_latest: false;
+    };
+    embeddings: Map<string, number[]>;  // Previous version's embeddings by chunk hash
+}
+
+// ============================================================================
+// New Versions
+// ============================================================================
+
+/**
+ * Resolve the document a re-upload is a new version of (any version of it may be given)
+ */
+export async function prepareNewVersion(
+    client: SupabaseClient,
+    userId: string,
+    documentId: string
+): Promise<VersionTarget> {
+    const { data: target, error } = await client
+        .from('documents')
+        .select('id, version_group, version')
+        .eq('id', documentId)
+        .eq('user_id', userId) // Security check
+        .single();
+
+    if (error || !target) {
+        throw new Error('Document to version not found');
+    }
+
+    const group = target.version_group || target.id;
+    const { data: current } = await client
+        .from('documents')
+        .select('id, version')
+        .or(`id.eq.${group},version_group.eq.${group}`)
+        .eq('is_latest', true)
+        .maybeSingle();
+    const latest = current || target;
+
+    return {
+        fields: { version_group: group, version: (latest.version || 1) + 1, is_latest: false },
+        embeddings: await loadChunkEmbeddings(client, latest.id),
+    };
+}
+
+async function loadChunkEmbeddings(client: SupabaseClient, documentId: string): Promise<Map<string, number[]>> {
+    const { data, error } = await client
+        .from('chunks')
+        .select('content, embedding')
+        .eq('document_id', documentId);
+
+    const embeddings = new Map<string, number[]>();
+    if (error) {
+        // Everything is re-embedded; slower, but still correct
+        console.error(`[Versions] Failed to load embeddings of ${documentId}:`, error.message);
+        return embeddings;
+    }
+
+    for (const row of data || []) {
+        if (!row.content || !row.embedding) continue;
+        // pgvector columns come back from PostgREST as '[0.1,0.2,...]'
+        const embedding = typeof row.embedding === 'string' ? JSON.parse(row.embedding) : row.embedding;
+        embeddings.set(textHash(row.content), embedding);
+    }
+    return embeddings;
+}
+
+/**
+ * Embed function that reuses the previous version's embedding for unchanged chunks
+ * (matched by normalized text hash)
+ */
+export function reuseEmbeddings(embedFn: EmbedFunction, embeddings: Map<string, number[]>): EmbedFunction {
+    return async (text: string) => embeddings.get(textHash(text)) ?? embedFn(text);
+}
+
+/**
+ * Make an indexed version the one chat searches by default
+ */
+export async function promoteVersion(client: SupabaseClient, documentId: string, group: string): Promise<void> {
+    const { error: previousError } = await client
+        .from('documents')
+        .update({ is_latest: false })
+        .or(`id.eq.${group},version_group.eq.${group}`)
+        .neq('id', documentId);
+
+    const { error } = await client
+        .from('documents')
+        .update({ is_latest: true })
+        .eq('id', documentId);
+
+    if (previousError || error) {
+        console.error(`[Versions] Failed to promote ${documentId}:`, (previousError || error)?.message);
+    }
+}
+
+/**
+ * After deleting the latest version, the newest remaining one takes over
+ */
+export async function promoteNewestRemaining(client: SupabaseClient, group: string): Promise<void> {
+    const { data: newest } = await client
+        .from('documents')
+        .select('id')
+        .or(`id.eq.${group},version_group.eq.${group}`)
+        .neq('status', 'failed')
+        .order('version', { ascending: false })
+        .limit(1);
+
+    if (newest && newest.length > 0) {
+        await client.from('documents').update({ is_latest: true }).eq('id', newest[0].id);
+    }
+}
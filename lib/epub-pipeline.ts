@@ -0,0 +1,227 @@
+/**
+ * EPUB Pipeline
+ *
+ * Book ingestion with chapter-level structure:
+ * - META-INF/container.xml → package document (OPF): manifest, spine, title/author
+ * - Spine order is reading order; each linear XHTML document is one chapter "page"
+ * - Chapter titles come from the table of contents (EPUB 3 nav, EPUB 2 NCX),
+ *   falling back to the chapter's first heading
+ * - XHTML → Markdown (headings, lists, tables preserved) for section-aware chunking
+ * - Every chunk carries { chapter, chapterTitle } so citations read "Chapter 7: Caching"
+ *   (front matter without a number keeps only its title)
+ *
+ * The archive is read through the ZIP pipeline (streaming size limits).
+ */
+
+import path from 'path';
+import { parse, HTMLElement } from 'node-html-parser';
+import { htmlToMarkdown } from './markdown';
+import { openZip, ZipEntry, PACKAGE_ZIP_CONFIG } from './zip-pipeline';
+import type { ExtractedPage } from './pdf-pipeline';
+
+const CHAPTER_TYPES = new Set(['application/xhtml+xml', 'text/html']);
+
+// "Chapter 7: Caching", "Chapter 7 - Caching", "CHAPTER 7. Caching"
+const NUMBERED_TITLE = /^chapter\s+(\d+)\s*[:.\-–—]?\s*(.*)$/i;
+
+export interface EpubExtractionResult {
+    title?: string;
+    author?: string;
+    pages: ExtractedPage[];     // One per chapter, in spine order
+    warnings: string[];         // Chapters that could not be read (non-fatal)
+}
+
+interface ManifestItem {
+    href: string;               // Archive path (resolved against the OPF location)
+    mediaType: string;
+    properties: string;
+}
+
+// ============================================================================
+// Package Document
+// ============================================================================
+
+function resolveHref(baseDir: string, href: string): string {
+    const withoutFragment = href.split('#')[0];
+    let decoded = withoutFragment;
+    try {
+        decoded = decodeURIComponent(withoutFragment);
+    } catch {
+        // Keep malformed escapes as written
+    }
+    return path.posix.normalize(path.posix.join(baseDir, decoded));
+}
+
+function readManifest(opf: HTMLElement, baseDir: string): Map<string, ManifestItem> {
+    const manifest = new Map<string, ManifestItem>();
+    for (const item of opf.getElementsByTagName('item')) {
+        const id = item.getAttribute('id');
+        const href = item.getAttribute('href');
+        if (!id || !href) continue;
+        manifest.set(id, {
+            href: resolveHref(baseDir, href),
+            mediaType: item.getAttribute('media-type') || '',
+            properties: item.getAttribute('properties') || '',
+        });
+    }
+    return manifest;
+}
+
+function firstText(root: HTMLElement, tagName: string): string | undefined {
+    const text = root.getElementsByTagName(tagName)[0]?.text.trim();
+    return text || undefined;
+}
+
+// ============================================================================
+// Table of Contents
+// ============================================================================
+
+/**
+ * Chapter titles by archive path (first TOC entry pointing into each file)
+ */
+async function readTocTitles(
+    opf: HTMLElement,
+    manifest: Map<string, ManifestItem>,
+    readText: (archivePath: string) => Promise<string | null>
+): Promise<Map<string, string>> {
+    const titles = new Map<string, string>();
+    const add = (baseDir: string, href: string | undefined, title: string | undefined) => {
+        const cleaned = title?.replace(/\s+/g, ' ').trim();
+        if (!href || !cleaned) return;
+        const target = resolveHref(baseDir, href);
+        if (!titles.has(target)) titles.set(target, cleaned);
+    };
+
+    // EPUB 3: the nav document's toc <nav>
+    const nav = Array.from(manifest.values()).find(item => item.properties.split(/\s+/).includes('nav'));
+    const navXml = nav ? await readText(nav.href) : null;
+    if (nav && navXml) {
+        const tocNav = parse(navXml).getElementsByTagName('nav')
+            .find(n => (n.getAttribute('epub:type') || '').split(/\s+/).includes('toc'));
+        for (const link of tocNav?.getElementsByTagName('a') || []) {
+            add(path.posix.dirname(nav.href), link.getAttribute('href'), link.text);
+        }
+    }
+    if (titles.size > 0) return titles;
+
+    // EPUB 2: the NCX named by the spine
+    const ncxId = opf.getElementsByTagName('spine')[0]?.getAttribute('toc');
+    const ncx = (ncxId && manifest.get(ncxId))
+        || Array.from(manifest.values()).find(item => item.mediaType === 'application/x-dtbncx+xml');
+    const ncxXml = ncx ? await readText(ncx.href) : null;
+    if (ncx && ncxXml) {
+        for (const point of parse(ncxXml).getElementsByTagName('navPoint')) {
+            add(path.posix.dirname(ncx.href), point.getElementsByTagName('content')[0]?.getAttribute('src'), firstText(point, 'text'));
+        }
+    }
+    return titles;
+}
+
+/**
+ * Chapter numbers for titles in reading order. A book that numbers its chapters
+ * ("Chapter 7: Caching") keeps its numbers and leaves front/back matter
+ * (Preface, Appendix) unnumbered; otherwise chapters are counted in order.
+ */
+function numberChapters(titles: (string | undefined)[]): { chapter?: number; chapterTitle?: string }[] {
+    const parsed = titles.map(title => title?.match(NUMBERED_TITLE));
+    if (!parsed.some(Boolean)) {
+        return titles.map((title, idx) => ({ chapter: idx + 1, chapterTitle: title }));
+    }
+    return titles.map((title, idx) => {
+        const numbered = parsed[idx];
+        return numbered
+            ? { chapter: Number(numbered[1]), chapterTitle: numbered[2] || undefined }
+            : { chapterTitle: title };
+    });
+}
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+export async function extractEpub(buffer: Buffer): Promise<EpubExtractionResult> {
+    const startTime = Date.now();
+
+    const listing = await openZip(buffer, PACKAGE_ZIP_CONFIG);
+    if (!listing.success) {
+        throw new Error(listing.failureReason === 'CORRUPTED' ? 'This file is not a valid EPUB or is corrupted.' : listing.userMessage);
+    }
+
+    const entries = new Map<string, ZipEntry>(listing.entries.map(e => [e.path, e]));
+    const readText = async (archivePath: string): Promise<string | null> => {
+        const entry = entries.get(archivePath);
+        return entry ? (await entry.read()).toString('utf-8') : null;
+    };
+
+    // Package document location
+    const containerXml = await readText('META-INF/container.xml');
+    const opfPath = containerXml ? parse(containerXml).getElementsByTagName('rootfile')[0]?.getAttribute('full-path') : undefined;
+    const opfXml = opfPath ? await readText(opfPath) : null;
+    if (!opfPath || !opfXml) {
+        throw new Error('This file is not a valid EPUB (package document missing).');
+    }
+
+    const opf = parse(opfXml);
+    const manifest = readManifest(opf, path.posix.dirname(opfPath));
+    const spine = opf.getElementsByTagName('itemref')
+        .filter(ref => ref.getAttribute('linear') !== 'no')
+        .map(ref => manifest.get(ref.getAttribute('idref') || ''))
+        .filter((item): item is ManifestItem => !!item && CHAPTER_TYPES.has(item.mediaType));
+
+    // DRM: encrypted chapters can't be read (font obfuscation alone is fine)
+    const encryptionXml = await readText('META-INF/encryption.xml');
+    if (encryptionXml) {
+        const encrypted = new Set(parse(encryptionXml).getElementsByTagName('CipherReference')
+            .map(ref => resolveHref('', ref.getAttribute('URI') || '')));
+        if (spine.some(item => encrypted.has(item.href))) {
+            throw new Error('This EPUB is DRM-protected and cannot be processed.');
+        }
+    }
+
+    const tocTitles = await readTocTitles(opf, manifest, readText);
+    const chapters: { markdown: string; title?: string }[] = [];
+    const warnings: string[] = [];
+
+    for (const item of spine) {
+        let markdown: string;
+        try {
+            const xhtml = await readText(item.href);
+            if (xhtml === null) {
+                warnings.push(`${item.href}: missing from the archive`);
+                continue;
+            }
+            const document = parse(xhtml, { blockTextElements: { pre: true } });
+            markdown = htmlToMarkdown((document.querySelector('body') || document).innerHTML);
+        } catch (error) {
+            warnings.push(`${item.href}: ${(error as Error).message}`);
+            continue;
+        }
+
+        // Cover and image-only pages have no text
+        if (!markdown.trim()) continue;
+
+        const heading = markdown.match(/^#{1,6}\s+(.+)$/m)?.[1].replace(/[*_`]/g, '').trim();
+        chapters.push({ markdown, title: tocTitles.get(item.href) || heading });
+    }
+
+    const numbering = numberChapters(chapters.map(c => c.title));
+    const pages: ExtractedPage[] = chapters.map((c, idx) => {
+        const { chapter, chapterTitle } = numbering[idx];
+        return {
+            pageNumber: idx + 1,
+            text: c.markdown,
+            source: 'epub',
+            metadata: {
+                ...(chapter ? { chapter } : {}),
+                ...(chapterTitle ? { chapterTitle } : {}),
+            },
+        };
+    });
+
+    const title = firstText(opf, 'dc:title');
+    const author = firstText(opf, 'dc:creator');
+
+    console.log(`[EpubPipeline] "${title || 'Untitled'}": ${pages.length} chapters in ${Date.now() - startTime}ms${warnings.length ? `, ${warnings.length} unreadable` : ''}`);
+
+    return { title, author, pages, warnings };
+}
@@ -0,0 +1,314 @@
+/**
+ * Extractor Registry
+ *
+ * One place that decides how an uploaded file becomes text, so every entry
+ * point (server action, streaming route, connectors) handles every format the
+ * same way:
+ * - Each format registers a MIME/extension matcher and an extract function
+ * - Every extractor returns the unified ExtractedDocument contract (pdf-pipeline.ts),
+ *   plus what the document record and vectorizer need (metadata, rows, chunking strategy)
+ * - The first matching extractor wins; anything unmatched is read as plain text
+ *
+ * Failures the user can act on (password, OCR opt-in, unreadable scans) come back
+ * as success: false with a userMessage; unexpected errors are thrown.
+ */
+
+import { extractPDFText, DEFAULT_CONFIG, ExtractedDocument, ExtractedPage, ExtractionSource } from './pdf-pipeline';
+import { extractDocx } from './docx-pipeline';
+import { extractEpub } from './epub-pipeline';
+import { extractPptx } from './pptx-pipeline';
+import { extractXlsx } from './xlsx-pipeline';
+import { extractHtml } from './html-pipeline';
+import { extractCsv, CsvRow } from './csv-pipeline';
+import { extractJson } from './json-pipeline';
+import { detectLanguage, extractCode } from './code-pipeline';
+import { ocrLanguageMetadata } from './ocr-languages';
+import type { ChunkingStrategy, PageText } from './vectorize-pipeline';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ExtractorInput {
+    name: string;               // File name (extension matching)
+    type: string;               // MIME type, may be empty
+}
+
+export interface ExtractorOptions {
+    password?: string;          // Encrypted PDFs only (never logged or stored)
+    ocrEnabled?: boolean;       // Scanned PDF pages; images are always OCR'd
+    ocrLanguage?: string;       // Tesseract language(s) or 'auto'
+    sourceUrl?: string;         // Fetched from a URL (resolves relative links in HTML)
+}
+
+/**
+ * ExtractedDocument plus what the document record and vectorizer need.
+ * `pages` is empty for unpaginated text, which the vectorizer splits itself.
+ */
+export interface ExtractionResult extends ExtractedDocument {
+    metadata?: Record<string, unknown>;  // Stored on the document record (e.g. CSV schema, OCR language)
+    rows?: CsvRow[];                     // Tabular rows for structured queries
+    chunkingStrategy?: ChunkingStrategy; // Overrides the default recursive splitter (e.g. Markdown)
+}
+
+export interface Extractor {
+    name: string;
+    matches: (input: ExtractorInput) => boolean;
+    extract: (buffer: Buffer, input: ExtractorInput, options: ExtractorOptions) => Promise<ExtractionResult>;
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const extractors: Extractor[] = [];
+
+/**
+ * Add a format. Registration order is match order, so register specific
+ * matchers before broad ones.
+ */
+export function registerExtractor(extractor: Extractor): void {
+    extractors.push(extractor);
+}
+
+export function findExtractor(input: ExtractorInput): Extractor {
+    return extractors.find(e => e.matches(input)) || textExtractor;
+}
+
+export async function extractDocument(
+    buffer: Buffer,
+    input: ExtractorInput,
+    options: ExtractorOptions = {}
+): Promise<ExtractionResult> {
+    const extractor = findExtractor(input);
+    console.log(`[Extract] ${input.name} (${(buffer.length / 1024 / 1024).toFixed(2)}MB) → ${extractor.name}`);
+
+    const result = await extractor.extract(buffer, input, options);
+
+    console.log(`[Extract] ${result.success ? 'Complete' : 'Failed'}: ${result.text.length} chars, ${result.pageCount} pages, ${result.processingTimeMs}ms, source: ${result.source}`);
+    return result;
+}
+
+/**
+ * What vectorizeIncrementally takes: real pages/sections, or the raw text to split
+ */
+export function extractedContent(result: ExtractedDocument): string | PageText[] {
+    return result.pages.length > 0 ? result.pages : result.text;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function hasExtension(input: ExtractorInput, pattern: RegExp): boolean {
+    return pattern.test(input.name);
+}
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|tiff?|webp|gif|bmp)$/i;
+
+export function isImageFile(input: ExtractorInput): boolean {
+    return input.type.startsWith('image/') || hasExtension(input, IMAGE_EXTENSIONS);
+}
+
+// NUL bytes don't occur in text files (UTF-16 aside)
+function looksBinary(buffer: Buffer): boolean {
+    return buffer.subarray(0, 8000).includes(0);
+}
+
+/**
+ * Successful result for formats without PDF classification
+ */
+function textResult(
+    content: string | ExtractedPage[],
+    source: ExtractionSource,
+    startTime: number,
+    extra: Partial<ExtractionResult> = {}
+): ExtractionResult {
+    const pages = typeof content === 'string' ? [] : content;
+    return {
+        success: true,
+        text: typeof content === 'string' ? content : pages.map(p => p.text).join('\n\n'),
+        pages,
+        pageCount: pages.length || 1,
+        source,
+        classification: 'TEXT_BASED',
+        processingTimeMs: Date.now() - startTime,
+        userMessage: 'Text extracted successfully',
+        extractionStatus: 'COMPLETE',
+        ...extra,
+    };
+}
+
+// ============================================================================
+// Formats
+// ============================================================================
+
+// Plain text fallback (also used for unknown types); binary files have no extractor
+const textExtractor: Extractor = {
+    name: 'text',
+    matches: () => true,
+    extract: async (buffer, input) => {
+        const startTime = Date.now();
+        if (looksBinary(buffer)) {
+            return {
+                ...textResult('', 'text', startTime),
+                success: false,
+                userMessage: `Unsupported file type: ${input.name}`,
+                extractionStatus: undefined,
+            };
+        }
+        return textResult(buffer.toString('utf-8'), 'text', startTime);
+    },
+};
+
+// Guardrails, classification, page-batched extraction, optional OCR of scanned pages
+registerExtractor({
+    name: 'pdf',
+    matches: (input) => input.type === 'application/pdf' || hasExtension(input, /\.pdf$/i),
+    extract: async (buffer, _input, options) => {
+        const result = await extractPDFText(buffer, {
+            ...DEFAULT_CONFIG,
+            ocrEnabled: options.ocrEnabled ?? DEFAULT_CONFIG.ocrEnabled,
+            ocrLanguage: options.ocrLanguage ?? DEFAULT_CONFIG.ocrLanguage,
+            password: options.password,
+        });
+        return { ...result, metadata: ocrLanguageMetadata(result.ocrLanguage, result.ocrScript) };
+    },
+});
+
+// Images skip PDF rendering and go straight to OCR
+registerExtractor({
+    name: 'image',
+    matches: isImageFile,
+    extract: async (buffer, _input, options) => {
+        // Loaded on demand: OCR pulls in native bindings
+        const { performImageOCR, DEFAULT_OCR_CONFIG } = await import('./ocr-pipeline');
+        const ocr = await performImageOCR(buffer, {
+            ...DEFAULT_OCR_CONFIG,
+            language: options.ocrLanguage ?? DEFAULT_OCR_CONFIG.language,
+            maxPages: DEFAULT_CONFIG.maxPagesScannedSync,
+        });
+
+        return {
+            success: ocr.success,
+            text: ocr.text,
+            pages: ocr.pages,
+            pageCount: ocr.pageCount,
+            source: 'ocr',
+            classification: 'SCANNED',
+            processingTimeMs: ocr.processingTimeMs,
+            userMessage: ocr.userMessage,
+            failureReason: ocr.failureReason === 'TIMEOUT' || ocr.failureReason === 'TOO_MANY_PAGES' ? ocr.failureReason : undefined,
+            extractionStatus: ocr.success ? 'COMPLETE' : undefined,
+            ocrLanguage: ocr.language,
+            ocrScript: ocr.detectedScript,
+            metadata: ocrLanguageMetadata(ocr.language, ocr.detectedScript),
+        };
+    },
+});
+
+// Markdown sections with heading paths (headings, lists, tables preserved)
+registerExtractor({
+    name: 'docx',
+    matches: (input) => input.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+        || hasExtension(input, /\.docx$/i),
+    extract: async (buffer) => {
+        const startTime = Date.now();
+        const result = await extractDocx(buffer);
+        return textResult(result.pages, 'mammoth', startTime, { warnings: result.warnings });
+    },
+});
+
+// One page per chapter in spine order; chapter number and title kept in chunk metadata
+registerExtractor({
+    name: 'epub',
+    matches: (input) => input.type === 'application/epub+zip' || hasExtension(input, /\.epub$/i),
+    extract: async (buffer) => {
+        const startTime = Date.now();
+        const result = await extractEpub(buffer);
+        const metadata = {
+            ...(result.title ? { title: result.title } : {}),
+            ...(result.author ? { author: result.author } : {}),
+        };
+        return textResult(result.pages, 'epub', startTime, { metadata, warnings: result.warnings, chunkingStrategy: 'markdown' });
+    },
+});
+
+// One page per slide (text, tables, speaker notes); slide number and title kept in chunk metadata
+registerExtractor({
+    name: 'pptx',
+    matches: (input) => input.type === 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+        || hasExtension(input, /\.pptx$/i),
+    extract: async (buffer) => {
+        const startTime = Date.now();
+        const result = await extractPptx(buffer);
+        return { ...textResult(result.pages, 'pptx', startTime), pageCount: result.slideCount || 1 };
+    },
+});
+
+// Each sheet grouped like CSV (header repeated); sheet and row range kept in chunk metadata
+registerExtractor({
+    name: 'xlsx',
+    matches: (input) => input.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+        || hasExtension(input, /\.xlsx$/i),
+    extract: async (buffer) => {
+        const startTime = Date.now();
+        const result = await extractXlsx(buffer);
+        return textResult(result.pages, 'xlsx', startTime, { metadata: { sheets: result.sheets } });
+    },
+});
+
+// Main content only (navigation, footers, scripts stripped), as Markdown heading sections
+registerExtractor({
+    name: 'html',
+    matches: (input) => input.type === 'text/html' || input.type === 'application/xhtml+xml'
+        || hasExtension(input, /\.(html?|xhtml)$/i),
+    extract: async (buffer, _input, options) => {
+        const startTime = Date.now();
+        const result = extractHtml(buffer, options.sourceUrl);
+        const metadata = {
+            ...(result.title ? { title: result.title } : {}),
+            ...(result.canonicalUrl ? { canonicalUrl: result.canonicalUrl } : {}),
+        };
+        return textResult(result.pages, 'html', startTime, { metadata });
+    },
+});
+
+// Whole rows per chunk with the header repeated; schema kept on the document
+registerExtractor({
+    name: 'csv',
+    matches: (input) => input.type === 'text/csv' || hasExtension(input, /\.csv$/i),
+    extract: async (buffer) => {
+        const startTime = Date.now();
+        const result = extractCsv(buffer);
+        return textResult(result.pages, 'papaparse', startTime, { metadata: { schema: result.schema }, rows: result.rows });
+    },
+});
+
+// One record per array element / object subtree, tagged with its JSON path
+registerExtractor({
+    name: 'json',
+    matches: (input) => input.type === 'application/json' || hasExtension(input, /\.json$/i),
+    extract: async (buffer) => {
+        const startTime = Date.now();
+        return textResult(extractJson(buffer).pages, 'json', startTime);
+    },
+});
+
+// Split on function/class boundaries; path and symbol kept in chunk metadata
+registerExtractor({
+    name: 'code',
+    matches: (input) => detectLanguage(input.name) !== null,
+    extract: async (buffer, input) => {
+        const startTime = Date.now();
+        const pages = extractCode(buffer, input.name, detectLanguage(input.name)!);
+        return textResult(pages, 'code', startTime, { chunkingStrategy: 'code' });
+    },
+});
+
+// Heading-section chunks with breadcrumbs; fences and tables kept intact
+registerExtractor({
+    name: 'markdown',
+    matches: (input) => input.type === 'text/markdown' || hasExtension(input, /\.(md|markdown)$/i),
+    extract: async (buffer) => textResult(buffer.toString('utf-8'), 'text', Date.now(), { chunkingStrategy: 'markdown' }),
+});
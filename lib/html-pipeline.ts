@@ -0,0 +1,241 @@
+/**
+ * HTML Pipeline
+ *
+ * Saved web pages without the page chrome:
+ * - Charset from the BOM / <meta charset> (saved pages are often not UTF-8)
+ * - Boilerplate removal: scripts, navigation, headers/footers, sidebars, cookie
+ *   banners, share widgets (by tag, ARIA role and class/id hints)
+ * - Main content: <article>/<main> when present, otherwise the block whose
+ *   paragraphs score highest (readability-style: text length and commas,
+ *   propagated to ancestors, discounted by link density)
+ * - HTML → Markdown (headings, lists, tables preserved), one "page" per heading
+ *   section like DOCX
+ * - Page title and canonical URL kept for the document record
+ */
+
+import { parse, HTMLElement } from 'node-html-parser';
+import { elementToMarkdown, splitMarkdownSections } from './markdown';
+import type { ExtractedPage } from './pdf-pipeline';
+
+export interface HtmlExtractionResult {
+    title?: string;
+    canonicalUrl?: string;
+    markdown: string;
+    pages: ExtractedPage[];     // Heading sections of the main content
+}
+
+// Never content
+const NOISE_TAGS = ['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'button', 'nav', 'aside', 'footer', 'dialog'];
+const NOISE_ROLES = new Set(['navigation', 'banner', 'contentinfo', 'complementary', 'search', 'dialog', 'alert']);
+
+// Class/id hints (readability's "unlikely candidates", minus what looks like content)
+const UNLIKELY_HINT = /comment|sidebar|menu|nav|footer|masthead|breadcrumb|share|social|cookie|consent|banner|promo|sponsor|advert|\bads?\b|related|recommend|subscribe|newsletter|popup|modal|skip-link/i;
+const LIKELY_HINT = /article|body|content|main|post|entry|story|text|blog/i;
+
+// Paragraph-like blocks that carry scores to their ancestors
+const SCORED_TAGS = ['p', 'pre', 'td', 'blockquote', 'li'];
+const MIN_PARAGRAPH_LENGTH = 25;
+
+// Below this much text, an <article>/<main> is probably a teaser, not the page
+const MIN_CONTENT_LENGTH = 200;
+
+// Search boxes, logins and newsletter sign-ups are forms with little text; a
+// form wrapping the whole page (ASP.NET WebForms) is content and stays
+const MAX_NOISE_FORM_LENGTH = MIN_CONTENT_LENGTH;
+
+// ============================================================================
+// Document Head
+// ============================================================================
+
+/**
+ * Decode with the declared charset (BOM, then <meta>), defaulting to UTF-8
+ */
+function decodeHtml(buffer: Buffer): string {
+    if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) return buffer.toString('utf-8');
+
+    const head = buffer.subarray(0, 2048).toString('latin1');
+    const charset = head.match(/<meta[^>]+charset\s*=\s*["']?\s*([\w-]+)/i)?.[1];
+    if (charset && !/^utf-?8$/i.test(charset)) {
+        try {
+            return new TextDecoder(charset).decode(buffer);
+        } catch {
+            // Unknown label - fall through to UTF-8
+        }
+    }
+    return buffer.toString('utf-8');
+}
+
+function metaContent(root: HTMLElement, key: string): string | undefined {
+    const meta = root.getElementsByTagName('meta')
+        .find(m => (m.getAttribute('property') || m.getAttribute('name'))?.toLowerCase() === key);
+    return meta?.getAttribute('content')?.trim() || undefined;
+}
+
+function resolveUrl(href: string, base: string | undefined): string | undefined {
+    try {
+        const url = new URL(href, base);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * <link rel="canonical">, then og:url; relative URLs resolved against where
+ * the page came from ("saved from" comment of browser-saved pages)
+ */
+function canonicalUrl(root: HTMLElement, html: string, baseUrl: string | undefined): string | undefined {
+    const savedFrom = html.match(/<!--\s*saved from url=\(\d+\)(\S+?)\s*-->/i)?.[1];
+    const base = baseUrl || resolveUrl(savedFrom || '', undefined);
+
+    const link = root.getElementsByTagName('link')
+        .find(l => (l.getAttribute('rel') || '').toLowerCase().split(/\s+/).includes('canonical'));
+    const href = link?.getAttribute('href')?.trim() || metaContent(root, 'og:url');
+    return (href && resolveUrl(href, base)) || base;
+}
+
+function pageTitle(root: HTMLElement): string | undefined {
+    const title = metaContent(root, 'og:title')
+        || root.getElementsByTagName('title')[0]?.text
+        || root.getElementsByTagName('h1')[0]?.text;
+    return title?.replace(/\s+/g, ' ').trim() || undefined;
+}
+
+// ============================================================================
+// Boilerplate Removal
+// ============================================================================
+
+function isNoise(el: HTMLElement): boolean {
+    if (el.hasAttribute('hidden') || el.getAttribute('aria-hidden') === 'true') return true;
+    if (/display\s*:\s*none/i.test(el.getAttribute('style') || '')) return true;
+    if (NOISE_ROLES.has((el.getAttribute('role') || '').toLowerCase())) return true;
+
+    const hint = `${el.getAttribute('class') || ''} ${el.getAttribute('id') || ''}`;
+    return UNLIKELY_HINT.test(hint) && !LIKELY_HINT.test(hint)
+        // Never drop the document skeleton itself
+        && !['html', 'body', 'main', 'article'].includes(el.rawTagName.toLowerCase());
+}
+
+function removeBoilerplate(body: HTMLElement): void {
+    for (const tag of NOISE_TAGS) {
+        body.getElementsByTagName(tag).forEach(el => el.remove());
+    }
+    body.getElementsByTagName('form')
+        .filter(el => textLength(el) < MAX_NOISE_FORM_LENGTH)
+        .forEach(el => el.remove());
+
+    // Site headers go; an article's own header (title, byline) stays
+    body.getElementsByTagName('header')
+        .filter(el => !el.closest('article') && !el.closest('main'))
+        .forEach(el => el.remove());
+
+    body.getElementsByTagName('*').filter(isNoise).forEach(el => el.remove());
+}
+
+// ============================================================================
+// Main Content
+// ============================================================================
+
+function textLength(el: HTMLElement): number {
+    return el.text.replace(/\s+/g, ' ').trim().length;
+}
+
+// Share of the text that is link text (menus and link lists approach 1)
+function linkDensity(el: HTMLElement): number {
+    const total = textLength(el);
+    if (total === 0) return 1;
+    const linked = el.getElementsByTagName('a').reduce((sum, a) => sum + textLength(a), 0);
+    return Math.min(1, linked / total);
+}
+
+function classWeight(el: HTMLElement): number {
+    const hint = `${el.getAttribute('class') || ''} ${el.getAttribute('id') || ''}`;
+    return (LIKELY_HINT.test(hint) ? 25 : 0) - (UNLIKELY_HINT.test(hint) ? 25 : 0);
+}
+
+/**
+ * Readability-style scoring: each paragraph scores its parent fully and its
+ * grandparent by half; the best ancestor, discounted by link density, wins
+ */
+function scoreCandidates(body: HTMLElement): HTMLElement | null {
+    const scores = new Map<HTMLElement, number>();
+
+    for (const paragraph of body.querySelectorAll(SCORED_TAGS.join(','))) {
+        const text = paragraph.text.replace(/\s+/g, ' ').trim();
+        if (text.length < MIN_PARAGRAPH_LENGTH) continue;
+
+        const score = 1 + (text.match(/,/g) || []).length + Math.min(Math.floor(text.length / 100), 3);
+        const addScore = (el: HTMLElement | null | undefined, points: number) => {
+            if (!el?.rawTagName) return;
+            scores.set(el, (scores.get(el) ?? classWeight(el)) + points);
+        };
+        addScore(paragraph.parentNode, score);
+        addScore(paragraph.parentNode?.parentNode, score / 2);
+    }
+
+    let best: HTMLElement | null = null;
+    let bestScore = 0;
+    for (const [el, score] of scores) {
+        const adjusted = score * (1 - linkDensity(el));
+        if (adjusted > bestScore) {
+            best = el;
+            bestScore = adjusted;
+        }
+    }
+    return best;
+}
+
+function mainContent(body: HTMLElement): HTMLElement {
+    const explicit = body.getElementsByTagName('article').concat(
+        body.getElementsByTagName('main'),
+        body.querySelectorAll('[role="main"]')
+    ).find(el => textLength(el) >= MIN_CONTENT_LENGTH);
+    if (explicit) return explicit;
+
+    const best = scoreCandidates(body);
+    // Content split across siblings (e.g. <div class="post"><div>...</div><div>...</div>) lives one level up
+    if (best?.parentNode && (best.parentNode as HTMLElement).rawTagName
+        && textLength(best) < textLength(best.parentNode as HTMLElement) / 3) {
+        return best.parentNode as HTMLElement;
+    }
+    return best || body;
+}
+
+// ============================================================================
+// Main Extraction
+// ============================================================================
+
+/**
+ * @param baseUrl Where the page was fetched from (resolves relative canonical links)
+ */
+export function extractHtml(buffer: Buffer, baseUrl?: string): HtmlExtractionResult {
+    const startTime = Date.now();
+
+    const html = decodeHtml(buffer);
+    const root = parse(html, { blockTextElements: { pre: true } });
+    const title = pageTitle(root);
+    const canonical = canonicalUrl(root, html, baseUrl);
+
+    const body = root.getElementsByTagName('body')[0] || root;
+    removeBoilerplate(body);
+    const content = mainContent(body);
+
+    let markdown = elementToMarkdown(content);
+    // The title is often outside the content block (site header) - keep it as the top heading
+    if (title && !/^#\s/m.test(markdown)) {
+        markdown = `# ${title}\n\n${markdown}`;
+    }
+
+    const pages: ExtractedPage[] = splitMarkdownSections(markdown).map((section, idx) => ({
+        pageNumber: idx + 1,
+        text: section.text,
+        source: 'html',
+        metadata: section.headingPath.length > 0
+            ? { headingPath: section.headingPath.join(' > ') }
+            : undefined,
+    }));
+
+    console.log(`[HtmlPipeline] "${title || 'Untitled'}": ${textLength(body)} → ${markdown.length} chars, ${pages.length} sections in ${Date.now() - startTime}ms`);
+
+    return { title, canonicalUrl: canonical, markdown, pages };
+}
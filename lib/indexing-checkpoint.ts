@@ -0,0 +1,131 @@
+/**
+ * Indexing Checkpoints
+ *
+ * Lets a document whose vectorization stopped part-way be resumed:
+ * - The extracted text is kept in Storage until indexing completes
+ *   (documents.indexing_source holds its path)
+ * - documents.last_indexed_page advances as each page's chunks are stored
+ *   (along with the progress columns, see document-status.ts)
+ * - Chunks carry deterministic IDs, so re-running a page upserts instead of duplicating
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ExtractionSource } from './pdf-pipeline';
+import type { ChunkingStrategy, PageText, VectorizationProgress, VectorizationResult } from './vectorize-pipeline';
+import { updateDocumentStatus, indexingOutcome, DocumentProgress } from './document-status';
+
+// Full document text: the private bucket (PROCESSING_BUCKET, supabase.ts), never 'uploads'
+const SOURCE_BUCKET = 'processing';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Everything vectorizeIncrementally needs to pick a document up again
+ */
+export interface IndexingSource {
+    content: string | PageText[];
+    source: ExtractionSource;
+    chunkingStrategy?: ChunkingStrategy;
+    documentName?: string;     // Only when the original run prefixed it to the first chunk
+}
+
+// ============================================================================
+// Extracted Text
+// ============================================================================
+
+/**
+ * Keep the extracted text until indexing completes and point the document at it,
+ * returning its Storage path. Needs Storage write access (service role).
+ * Failures are logged: the document still indexes, it just can't be resumed.
+ */
+export async function saveIndexingSource(
+    client: SupabaseClient,
+    storage: SupabaseClient,
+    userId: string,
+    documentId: string,
+    indexingSource: IndexingSource
+): Promise<string | undefined> {
+    const sourcePath = `${userId}/indexing/${documentId}.json`;
+
+    // Only what chunking reads (extracted pages may also carry preview images)
+    const content = typeof indexingSource.content === 'string'
+        ? indexingSource.content
+        : indexingSource.content.map(({ pageNumber, text, source, metadata, confidence, words }) =>
+            ({ pageNumber, text, source, metadata, confidence, words }));
+
+    const { error } = await storage.storage
+        .from(SOURCE_BUCKET)
+        .upload(sourcePath, Buffer.from(JSON.stringify({ ...indexingSource, content })), { contentType: 'application/json', upsert: true });
+
+    if (error) {
+        console.error(`[Indexing] Failed to keep extracted text for ${documentId}:`, error.message);
+        return undefined;
+    }
+
+    const { error: updateError } = await client
+        .from('documents')
+        .update({ indexing_source: sourcePath })
+        .eq('id', documentId);
+
+    if (updateError) {
+        console.error(`[Indexing] Failed to record indexing source for ${documentId}:`, updateError.message);
+        return undefined;
+    }
+    return sourcePath;
+}
+
+export async function loadIndexingSource(storage: SupabaseClient, sourcePath: string): Promise<IndexingSource> {
+    const { data, error } = await storage.storage.from(SOURCE_BUCKET).download(sourcePath);
+    if (error || !data) {
+        throw new Error(`Extracted text is no longer available: ${error?.message || 'not found'}`);
+    }
+    return JSON.parse(await data.text()) as IndexingSource;
+}
+
+// ============================================================================
+// Progress
+// ============================================================================
+
+/**
+ * Checkpoint callback for vectorizeIncrementally (ResumeOptions.onPageComplete),
+ * also reporting progress on the document
+ */
+export function pageCheckpoint(client: SupabaseClient, documentId: string) {
+    return (pageNumber: number, progress: VectorizationProgress): Promise<void> =>
+        updateDocumentStatus(client, documentId, {
+            lastIndexedPage: pageNumber,
+            totalPages: progress.totalPages,
+            pagesIndexed: progress.pagesProcessed,
+            chunksStored: progress.chunksEmbedded,
+        });
+}
+
+/**
+ * Record how indexing ended. Unless chunks are still missing (failed run or
+ * failed chunks), drop the kept text so the document no longer offers a resume.
+ */
+export async function finishIndexing(
+    client: SupabaseClient,
+    storage: SupabaseClient,
+    documentId: string,
+    result: VectorizationResult,
+    sourcePath?: string | null
+): Promise<DocumentProgress> {
+    const outcome = indexingOutcome(result);
+    const resumable = !result.success || !!result.failedChunks;
+
+    if (!resumable && sourcePath) {
+        const { error } = await storage.storage.from(SOURCE_BUCKET).remove([sourcePath]);
+        if (error) console.error(`[Indexing] Failed to remove ${sourcePath}:`, error.message);
+
+        await client
+            .from('documents')
+            .update({ indexing_source: null })
+            .eq('id', documentId);
+    }
+
+    await updateDocumentStatus(client, documentId, outcome);
+    return outcome;
+}
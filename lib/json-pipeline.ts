@@ -0,0 +1,167 @@
+/**
+ * JSON Pipeline
+ *
+ * Record-aware JSON ingestion:
+ * - Walks the parsed structure instead of chunking raw text
+ * - One record per array element or object subtree that fits a chunk;
+ *   larger subtrees are split into their children
+ * - Scalar fields of a split object stay together as one record
+ * - Every record carries its JSON path (e.g. `$.orders[42]`) in page metadata
+ * - JSON Lines (one document per line) accepted as `$[n]` records
+ */
+
+import type { ExtractedPage } from './pdf-pipeline';
+import { DEFAULT_VECTORIZATION_CONFIG } from './vectorize-pipeline';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export interface JsonConfig {
+    maxRecordChars: number;     // Subtrees larger than this are split (matches vectorizer chunk size)
+}
+
+export const DEFAULT_JSON_CONFIG: JsonConfig = {
+    maxRecordChars: DEFAULT_VECTORIZATION_CONFIG.chunkSize,
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+export interface JsonRecord {
+    path: string;               // JSONPath of the record, e.g. $.orders[42] or $.tags[0:20]
+    value: JsonValue;
+}
+
+export interface JsonExtractionResult {
+    pages: ExtractedPage[];     // One record per page, in document order
+    records: number;
+    format: 'json' | 'jsonl';
+}
+
+// ============================================================================
+// Path Helpers
+// ============================================================================
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function childPath(path: string, key: string): string {
+    return IDENTIFIER_PATTERN.test(key)
+        ? `${path}.${key}`
+        : `${path}['${key.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}']`;
+}
+
+function isContainer(value: JsonValue): value is JsonValue[] | { [key: string]: JsonValue } {
+    return value !== null && typeof value === 'object';
+}
+
+function renderRecord(record: JsonRecord): string {
+    return `${record.path} = ${JSON.stringify(record.value)}`;
+}
+
+// ============================================================================
+// Structure Walk
+// ============================================================================
+
+/**
+ * Emit `value` as one record if it fits, otherwise descend into its children
+ */
+function collectRecords(value: JsonValue, path: string, config: JsonConfig, out: JsonRecord[]): void {
+    if (!isContainer(value) || renderRecord({ path, value }).length <= config.maxRecordChars) {
+        out.push({ path, value });
+        return;
+    }
+
+    if (Array.isArray(value)) {
+        // Containers become their own records; runs of scalars are grouped into slices
+        let run: JsonValue[] = [];
+        let runStart = 0;
+
+        const flushRun = (end: number) => {
+            if (run.length > 0) out.push({ path: `${path}[${runStart}:${end}]`, value: run });
+            run = [];
+        };
+
+        value.forEach((item, idx) => {
+            if (isContainer(item)) {
+                flushRun(idx);
+                collectRecords(item, `${path}[${idx}]`, config, out);
+                return;
+            }
+
+            const candidate = { path: `${path}[${runStart}:${idx + 1}]`, value: [...run, item] };
+            if (run.length > 0 && renderRecord(candidate).length > config.maxRecordChars) {
+                flushRun(idx);
+            }
+            if (run.length === 0) runStart = idx;
+            run.push(item);
+        });
+        flushRun(value.length);
+        return;
+    }
+
+    // Object: scalar fields stay together at this path, nested containers recurse
+    const entries = Object.entries(value);
+    const scalars = entries.filter(([, child]) => !isContainer(child));
+
+    if (scalars.length > 0) {
+        out.push({ path, value: Object.fromEntries(scalars) });
+    }
+
+    for (const [key, child] of entries) {
+        if (isContainer(child)) {
+            collectRecords(child, childPath(path, key), config, out);
+        }
+    }
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse a JSON document, falling back to JSON Lines
+ */
+function parseJson(text: string): { value: JsonValue; format: 'json' | 'jsonl' } {
+    try {
+        return { value: JSON.parse(text) as JsonValue, format: 'json' };
+    } catch (error) {
+        const lines = text.split(/\r?\n/).filter(line => line.trim());
+
+        if (lines.length > 1) {
+            try {
+                return { value: lines.map(line => JSON.parse(line) as JsonValue), format: 'jsonl' };
+            } catch {
+                // Not JSON Lines either - report the original parse error
+            }
+        }
+
+        throw new Error(`Invalid JSON: ${(error as Error).message}`);
+    }
+}
+
+// ============================================================================
+// Main Extraction
+// ============================================================================
+
+export function extractJson(buffer: Buffer, config: JsonConfig = DEFAULT_JSON_CONFIG): JsonExtractionResult {
+    const startTime = Date.now();
+    const { value, format } = parseJson(buffer.toString('utf-8').replace(/^\uFEFF/, ''));
+
+    const records: JsonRecord[] = [];
+    collectRecords(value, '$', config, records);
+
+    const pages: ExtractedPage[] = records.map((record, idx) => ({
+        pageNumber: idx + 1,
+        text: renderRecord(record),
+        source: 'json',
+        metadata: { jsonPath: record.path },
+    }));
+
+    console.log(`[JsonPipeline] ${format}: ${records.length} records in ${Date.now() - startTime}ms`);
+
+    return { pages, records: records.length, format };
+}
@@ -0,0 +1,236 @@
+/**
+ * Markdown Utilities
+ *
+ * Structure-aware extractors convert their source to Markdown so headings,
+ * lists and tables survive into chunking and retrieval:
+ * - htmlToMarkdown: HTML (e.g. mammoth DOCX output) → Markdown
+ * - splitMarkdownSections: Markdown → sections with their heading path
+ */
+
+import { parse, HTMLElement, Node, NodeType } from 'node-html-parser';
+
+// ============================================================================
+// HTML → Markdown
+// ============================================================================
+
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'img', 'svg', 'head']);
+const BLOCK_TAGS = new Set([
+    'p', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'nav',
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'table', 'pre',
+    'blockquote', 'hr', 'figure', 'figcaption', 'dl', 'dt', 'dd', 'body', 'html',
+]);
+
+function tagOf(node: Node): string {
+    return node.nodeType === NodeType.ELEMENT_NODE ? (node as HTMLElement).rawTagName?.toLowerCase() || '' : '';
+}
+
+function collapseWhitespace(text: string): string {
+    return text.replace(/\s+/g, ' ');
+}
+
+/**
+ * Render inline content (text, emphasis, links, code) on a single line
+ */
+function renderInline(node: Node): string {
+    if (node.nodeType === NodeType.TEXT_NODE) {
+        return collapseWhitespace(node.text);
+    }
+    if (node.nodeType !== NodeType.ELEMENT_NODE) return '';
+
+    const tag = tagOf(node);
+    if (SKIPPED_TAGS.has(tag)) return '';
+
+    const inner = node.childNodes.map(renderInline).join('');
+    const trimmed = inner.trim();
+
+    switch (tag) {
+        case 'br':
+            return '\n';
+        case 'strong':
+        case 'b':
+            return trimmed ? `**${trimmed}**` : '';
+        case 'em':
+        case 'i':
+            return trimmed ? `*${trimmed}*` : '';
+        case 'code':
+            return trimmed ? `\`${trimmed}\`` : '';
+        case 'a': {
+            const href = (node as HTMLElement).getAttribute('href');
+            return href && !href.startsWith('#') && trimmed ? `[${trimmed}](${href})` : inner;
+        }
+        default:
+            return inner;
+    }
+}
+
+function renderTable(table: HTMLElement): string {
+    const rows = table.querySelectorAll('tr')
+        // Skip rows belonging to nested tables
+        .filter(tr => tr.closest('table') === table)
+        .map(tr => tr.childNodes
+            .filter(c => tagOf(c) === 'td' || tagOf(c) === 'th')
+            .map(cell => collapseWhitespace(renderInline(cell)).trim().replace(/\|/g, '\\|')));
+
+    const width = Math.max(0, ...rows.map(r => r.length));
+    if (rows.length === 0 || width === 0) return '';
+
+    const padded = rows.map(r => [...r, ...new Array(width - r.length).fill('')]);
+    const [header, ...body] = padded;
+
+    return [
+        `| ${header.join(' | ')} |`,
+        `| ${header.map(() => '---').join(' | ')} |`,
+        ...body.map(r => `| ${r.join(' | ')} |`),
+    ].join('\n');
+}
+
+function renderList(list: HTMLElement, depth: number): string {
+    const ordered = tagOf(list) === 'ol';
+    const indent = '  '.repeat(depth);
+    let index = 1;
+
+    return list.childNodes
+        .filter(c => tagOf(c) === 'li')
+        .map(li => {
+            const marker = ordered ? `${index++}.` : '-';
+            const inlineParts: string[] = [];
+            const nested: string[] = [];
+
+            for (const child of li.childNodes) {
+                const tag = tagOf(child);
+                if (tag === 'ul' || tag === 'ol') {
+                    nested.push(renderList(child as HTMLElement, depth + 1));
+                } else if (BLOCK_TAGS.has(tag)) {
+                    inlineParts.push(renderBlocks(child.childNodes, depth + 1).replace(/\n+/g, ' '));
+                } else {
+                    inlineParts.push(renderInline(child));
+                }
+            }
+
+            const line = `${indent}${marker} ${collapseWhitespace(inlineParts.join('')).trim()}`;
+            return [line, ...nested].join('\n');
+        })
+        .join('\n');
+}
+
+/**
+ * Render a sequence of sibling nodes as Markdown blocks separated by blank lines.
+ * Loose inline content between blocks is gathered into paragraphs.
+ */
+function renderBlocks(nodes: Node[], depth = 0): string {
+    const blocks: string[] = [];
+    let inline = '';
+
+    const flushInline = () => {
+        const text = inline.split('\n').map(l => l.trim()).join('\n').trim();
+        if (text) blocks.push(text);
+        inline = '';
+    };
+
+    for (const node of nodes) {
+        const tag = tagOf(node);
+
+        if (SKIPPED_TAGS.has(tag)) continue;
+        if (!BLOCK_TAGS.has(tag)) {
+            inline += renderInline(node);
+            continue;
+        }
+
+        flushInline();
+        const el = node as HTMLElement;
+        let block = '';
+
+        if (/^h[1-6]$/.test(tag)) {
+            const text = collapseWhitespace(renderInline(el)).trim();
+            if (text) block = `${'#'.repeat(Number(tag[1]))} ${text}`;
+        } else if (tag === 'ul' || tag === 'ol') {
+            block = renderList(el, depth);
+        } else if (tag === 'table') {
+            block = renderTable(el);
+        } else if (tag === 'pre') {
+            const code = el.text.replace(/\n+$/, '');
+            if (code.trim()) block = `\`\`\`\n${code}\n\`\`\``;
+        } else if (tag === 'blockquote') {
+            block = renderBlocks(el.childNodes, depth)
+                .split('\n')
+                .map(l => (l ? `> ${l}` : '>'))
+                .join('\n');
+        } else if (tag === 'hr') {
+            block = '---';
+        } else {
+            block = renderBlocks(el.childNodes, depth);
+        }
+
+        if (block.trim()) blocks.push(block);
+    }
+
+    flushInline();
+    return blocks.join('\n\n');
+}
+
+/**
+ * Convert an HTML fragment or document to Markdown
+ */
+export function htmlToMarkdown(html: string): string {
+    const root = parse(html, { blockTextElements: { pre: true } });
+    return elementToMarkdown(root);
+}
+
+/**
+ * Convert an already-parsed element (and its children) to Markdown
+ */
+export function elementToMarkdown(element: HTMLElement): string {
+    return renderBlocks(element.childNodes)
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+// ============================================================================
+// Heading Sections
+// ============================================================================
+
+export interface MarkdownSection {
+    headingPath: string[];   // e.g. ['Policies', 'Travel', 'Per diem']
+    text: string;            // Section body including its own heading line
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^(```|~~~)/;
+
+/**
+ * Split Markdown into sections at heading boundaries.
+ * Headings inside fenced code blocks are ignored; sections that contain
+ * only a heading are dropped (the heading lives on in their children's paths).
+ */
+export function splitMarkdownSections(markdown: string): MarkdownSection[] {
+    const sections: MarkdownSection[] = [];
+    const stack: { level: number; title: string }[] = [];
+    let current: string[] = [];
+    let currentPath: string[] = [];
+    let inFence = false;
+
+    const flush = () => {
+        const text = current.join('\n').trim();
+        const hasBody = current.some(line => line.trim() && !HEADING_PATTERN.test(line));
+        if (text && hasBody) sections.push({ headingPath: currentPath, text });
+        current = [];
+    };
+
+    for (const line of markdown.split('\n')) {
+        if (FENCE_PATTERN.test(line.trim())) inFence = !inFence;
+
+        const heading = inFence ? null : line.match(HEADING_PATTERN);
+        if (heading) {
+            flush();
+            const level = heading[1].length;
+            while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+            stack.push({ level, title: heading[2].replace(/[*_`]/g, '') });
+            currentPath = stack.map(h => h.title);
+        }
+
+        current.push(line);
+    }
+    flush();
+
+    return sections;
+}
@@ -0,0 +1,487 @@
+/**
+ * Async OCR Job Queue
+ *
+ * Scanned PDFs above the sync OCR limit (maxPagesScannedSync) are OCR'd by a
+ * server-side worker instead of the browser-side ClientOCRProcessor.
+ *
+ * Design principles:
+ * - Jobs persisted in `ocr_jobs`, source PDF kept in Storage
+ * - Per-page checkpointing (`ocr_job_pages`): retries resume, never restart
+ * - Bounded retries, last failure reason kept on the job
+ * - Cancellation checked between pages
+ * - Passwords of encrypted PDFs held in memory only, never stored
+ * - One worker loop per server process (OCR limited by its own semaphore, so
+ *   uploads OCR'd synchronously don't wait for a job)
+ */
+
+import { supabaseAdmin, PROCESSING_BUCKET } from './supabase';
+import { performOCR, DEFAULT_OCR_CONFIG, OCRConfig } from './ocr-pipeline';
+import { DEFAULT_CONFIG } from './pdf-pipeline';
+import { OCR_AUTO_LANGUAGE, isAutoLanguage, ocrLanguageMetadata } from './ocr-languages';
+import { lowConfidencePages, storeOCRPages, uploadPagePreview } from './ocr-review';
+import { vectorizeIncrementally, ChunkRecord, PageText } from './vectorize-pipeline';
+import { updateDocumentStatus, indexingOutcome } from './document-status';
+import { sha256, textHash } from './content-hash';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export interface OCRJobConfig {
+    maxAttempts: number;        // Attempts before a job is marked failed
+    staleAfterMs: number;       // Running jobs without a heartbeat this long are reclaimed
+    storageBucket: string;      // Bucket holding the source PDFs
+    ocr: OCRConfig;
+}
+
+export const DEFAULT_OCR_JOB_CONFIG: OCRJobConfig = {
+    maxAttempts: 3,
+    staleAfterMs: 5 * 60_000,   // 5 minutes without a page checkpoint
+    storageBucket: PROCESSING_BUCKET,    // Private: the PDFs are user documents
+    ocr: {
+        ...DEFAULT_OCR_CONFIG,
+        totalTimeoutMs: 60 * 60_000,                  // 1 hour per attempt
+        maxPages: DEFAULT_CONFIG.maxPagesScannedAsync,
+    },
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type OCRJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface OCRJob {
+    id: string;
+    user_id: string;
+    file_name: string;
+    storage_path: string;
+    status: OCRJobStatus;
+    page_count: number;
+    pages_completed: number;
+    attempts: number;
+    max_attempts: number;
+    last_error: string | null;
+    document_id: string | null;
+    language: string;           // Requested OCR language(s); 'auto' is replaced once detected
+    file_hash: string | null;   // SHA-256 of the source PDF, copied to the document
+    encrypted: boolean;         // Needs the password held by the process that queued it
+    created_at: string;
+    updated_at: string;
+}
+
+// ============================================================================
+// Job Management
+// ============================================================================
+
+// Passwords of encrypted source PDFs by job id. Only this process can run
+// those jobs; a restart loses the password and the job fails.
+const jobPasswords = new Map<string, string>();
+
+const PASSWORD_LOST = 'The password for this PDF is no longer available (the server restarted). Upload it again.';
+
+/**
+ * Store the source PDF and enqueue an OCR job
+ */
+export async function createOCRJob(
+    userId: string,
+    fileName: string,
+    buffer: Buffer,
+    pageCount: number,
+    language: string = OCR_AUTO_LANGUAGE,
+    password?: string,
+    config: OCRJobConfig = DEFAULT_OCR_JOB_CONFIG
+): Promise<OCRJob> {
+    const storagePath = `${userId}/ocr-jobs/${Date.now()}_${fileName.replace(/[^a-z0-9._-]/gi, '_')}`;
+
+    const { error: uploadError } = await supabaseAdmin.storage
+        .from(config.storageBucket)
+        .upload(storagePath, buffer, { contentType: 'application/pdf' });
+
+    if (uploadError) {
+        throw new Error(`Upload failed: ${uploadError.message}`);
+    }
+
+    const { data: job, error } = await supabaseAdmin
+        .from('ocr_jobs')
+        .insert({
+            user_id: userId,
+            file_name: fileName,
+            storage_path: storagePath,
+            page_count: pageCount,
+            max_attempts: config.maxAttempts,
+            language,
+            file_hash: sha256(buffer),
+            encrypted: !!password,
+        })
+        .select()
+        .single();
+
+    if (error) {
+        throw new Error(`Database Error: ${error.message}`);
+    }
+
+    if (password) jobPasswords.set(job.id, password);
+
+    console.log(`[OCRJobs] Queued job ${job.id}: ${fileName} (${pageCount} pages)`);
+    return job as OCRJob;
+}
+
+/**
+ * Fetch a job owned by the user (null if missing)
+ */
+export async function getOCRJob(jobId: string, userId: string): Promise<OCRJob | null> {
+    const { data } = await supabaseAdmin
+        .from('ocr_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    return (data as OCRJob) || null;
+}
+
+/**
+ * Cancel a queued or running job. The worker stops at the next page boundary.
+ */
+export async function cancelOCRJob(jobId: string, userId: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+        .from('ocr_jobs')
+        .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+        .eq('id', jobId)
+        .eq('user_id', userId)
+        .in('status', ['queued', 'running'])
+        .select('id');
+
+    if (error) {
+        console.error('[OCRJobs] Cancel failed:', error);
+        return false;
+    }
+
+    jobPasswords.delete(jobId);
+    return (data?.length || 0) > 0;
+}
+
+// ============================================================================
+// Worker
+// ============================================================================
+
+let workerRunning = false;
+
+/**
+ * Start the worker loop if it is not already running in this process.
+ * Drains the queue, then exits; callers re-trigger it when enqueuing/polling.
+ */
+export function startOCRWorker(config: OCRJobConfig = DEFAULT_OCR_JOB_CONFIG): void {
+    if (workerRunning) return;
+    workerRunning = true;
+
+    (async () => {
+        try {
+            let job = await claimNextJob(config);
+            while (job) {
+                await runJob(job, config);
+                job = await claimNextJob(config);
+            }
+        } catch (error) {
+            console.error('[OCRJobs] Worker loop failed:', error);
+        } finally {
+            workerRunning = false;
+        }
+    })();
+}
+
+/**
+ * Claim the oldest queued job (or a stale running one).
+ * `updated_at` acts as an optimistic lock so two workers never share a job.
+ */
+async function claimNextJob(config: OCRJobConfig): Promise<OCRJob | null> {
+    const staleBefore = new Date(Date.now() - config.staleAfterMs).toISOString();
+
+    const { data: candidates, error } = await supabaseAdmin
+        .from('ocr_jobs')
+        .select('*')
+        .or(`status.eq.queued,and(status.eq.running,updated_at.lt.${staleBefore})`)
+        .order('created_at', { ascending: true })
+        .limit(5);
+
+    if (error) {
+        console.error('[OCRJobs] Failed to list jobs:', error);
+        return null;
+    }
+
+    for (const candidate of (candidates || []) as OCRJob[]) {
+        // Another process holds this job's password - unless it stopped updating the job
+        if (candidate.encrypted && !jobPasswords.has(candidate.id)
+            && Date.parse(candidate.updated_at) > Date.now() - config.staleAfterMs) {
+            continue;
+        }
+
+        if (candidate.attempts >= candidate.max_attempts) {
+            await supabaseAdmin
+                .from('ocr_jobs')
+                .update({ status: 'failed', updated_at: new Date().toISOString() })
+                .eq('id', candidate.id)
+                .eq('updated_at', candidate.updated_at);
+            continue;
+        }
+
+        const { data: claimed } = await supabaseAdmin
+            .from('ocr_jobs')
+            .update({
+                status: 'running',
+                attempts: candidate.attempts + 1,
+                updated_at: new Date().toISOString(),
+            })
+            .eq('id', candidate.id)
+            .eq('updated_at', candidate.updated_at)
+            .select()
+            .maybeSingle();
+
+        if (claimed) return claimed as OCRJob;
+    }
+
+    return null;
+}
+
+/**
+ * Run one attempt of a job: OCR the pages not yet checkpointed, then index
+ */
+async function runJob(job: OCRJob, config: OCRJobConfig): Promise<void> {
+    console.log(`[OCRJobs] START job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`);
+
+    const password = jobPasswords.get(job.id);
+    if (job.encrypted && !password) {
+        // Retrying can't bring the password back
+        console.warn(`[OCRJobs] Job ${job.id}: password lost, giving up`);
+        await supabaseAdmin
+            .from('ocr_jobs')
+            .update({ status: 'failed', last_error: PASSWORD_LOST, updated_at: new Date().toISOString() })
+            .eq('id', job.id)
+            .eq('status', 'running');
+        return;
+    }
+
+    let retrying = false;
+    try {
+        // 1. Load source PDF
+        const { data: file, error: downloadError } = await supabaseAdmin.storage
+            .from(config.storageBucket)
+            .download(job.storage_path);
+
+        if (downloadError || !file) {
+            throw new Error(`Source PDF unavailable: ${downloadError?.message || 'not found'}`);
+        }
+
+        const buffer = Buffer.from(await file.arrayBuffer());
+
+        // 2. Resume from checkpoints
+        const done = await loadCheckpointedPages(job.id);
+        const donePages = new Set(done.map(p => p.pageNumber));
+        const pending = Array.from({ length: job.page_count }, (_, i) => i + 1)
+            .filter(n => !donePages.has(n));
+
+        console.log(`[OCRJobs] Job ${job.id}: ${donePages.size} pages checkpointed, ${pending.length} pending`);
+
+        // 3. OCR pending pages, checkpointing each one
+        if (pending.length > 0) {
+            let pagesCompleted = donePages.size;
+
+            const ocrResult = await performOCR(buffer, { ...config.ocr, language: job.language, password }, undefined, {
+                pages: pending,
+                background: true,
+                onPageComplete: async (page) => {
+                    const previewPath = page.preview
+                        ? await uploadPagePreview({ client: supabaseAdmin, pathPrefix: `${job.user_id}/ocr-previews/jobs/${job.id}` }, page.pageNumber, page.preview)
+                        : undefined;
+
+                    const { error } = await supabaseAdmin
+                        .from('ocr_job_pages')
+                        .upsert({
+                            job_id: job.id,
+                            page_number: page.pageNumber,
+                            text: page.text,
+                            confidence: page.confidence,
+                            preview_path: previewPath ?? null,
+                        });
+                    if (error) throw new Error(`Checkpoint failed: ${error.message}`);
+
+                    pagesCompleted++;
+                    await supabaseAdmin
+                        .from('ocr_jobs')
+                        .update({ pages_completed: pagesCompleted, updated_at: new Date().toISOString() })
+                        .eq('id', job.id)
+                        .eq('status', 'running');
+                },
+                shouldCancel: () => isCancelled(job.id),
+            });
+
+            if (ocrResult.failureReason === 'CANCELLED') {
+                console.log(`[OCRJobs] Job ${job.id} cancelled`);
+                return;
+            }
+
+            // Keep the detected language so retries and the document record agree
+            if (isAutoLanguage(job.language) && ocrResult.language) {
+                job.language = ocrResult.language;
+                await supabaseAdmin.from('ocr_jobs').update({ language: job.language }).eq('id', job.id);
+            }
+
+            if (!ocrResult.success) {
+                throw new Error(ocrResult.userMessage);
+            }
+        }
+
+        if (await isCancelled(job.id)) return;
+
+        // 4. Index all checkpointed pages - only once every page has one. Pages that
+        // failed are retried (checkpoints kept) until the attempts run out.
+        const pages = await loadCheckpointedPages(job.id);
+        const checkpointed = new Set(pages.map(p => p.pageNumber));
+        const missing = Array.from({ length: job.page_count }, (_, i) => i + 1).filter(n => !checkpointed.has(n));
+        if (missing.length > 0) {
+            throw new Error(`Text recognition failed on page${missing.length > 1 ? 's' : ''} ${missing.join(', ')}.`);
+        }
+
+        if (pages.every(p => p.text.trim().length < 10)) {
+            throw new Error('No text could be extracted from this PDF.');
+        }
+
+        const documentId = await indexPages(job, pages);
+
+        await supabaseAdmin
+            .from('ocr_jobs')
+            .update({ status: 'completed', document_id: documentId, last_error: null, updated_at: new Date().toISOString() })
+            .eq('id', job.id);
+
+        console.log(`[OCRJobs] SUCCESS job ${job.id} -> document ${documentId}`);
+
+    } catch (error) {
+        const err = error as Error;
+        const retry = job.attempts < job.max_attempts;
+        retrying = retry;
+        console.error(`[OCRJobs] Job ${job.id} attempt ${job.attempts} failed (${retry ? 'will retry' : 'giving up'}):`, err.message);
+
+        await supabaseAdmin
+            .from('ocr_jobs')
+            .update({
+                status: retry ? 'queued' : 'failed',
+                last_error: err.message,
+                updated_at: new Date().toISOString(),
+            })
+            .eq('id', job.id)
+            .eq('status', 'running');
+    } finally {
+        if (!retrying) jobPasswords.delete(job.id);
+    }
+}
+
+async function isCancelled(jobId: string): Promise<boolean> {
+    const { data } = await supabaseAdmin
+        .from('ocr_jobs')
+        .select('status')
+        .eq('id', jobId)
+        .single();
+
+    return data?.status === 'cancelled';
+}
+
+/**
+ * A checkpointed page (word confidences aren't kept, so chunks get the page mean)
+ */
+type CheckpointPage = PageText & { previewPath?: string };
+
+async function loadCheckpointedPages(jobId: string): Promise<CheckpointPage[]> {
+    const { data, error } = await supabaseAdmin
+        .from('ocr_job_pages')
+        .select('page_number, text, confidence, preview_path')
+        .eq('job_id', jobId)
+        .order('page_number', { ascending: true });
+
+    if (error) {
+        throw new Error(`Failed to load checkpoints: ${error.message}`);
+    }
+
+    return (data || []).map(row => ({
+        pageNumber: row.page_number,
+        text: row.text,
+        source: 'ocr' as const,
+        confidence: row.confidence ?? undefined,
+        previewPath: row.preview_path ?? undefined,
+    }));
+}
+
+/**
+ * Create the document record and vectorize the OCR'd pages
+ */
+async function indexPages(job: OCRJob, pages: CheckpointPage[]): Promise<string> {
+    const reviewPages = lowConfidencePages(pages);
+
+    const { data: doc, error: docError } = await supabaseAdmin
+        .from('documents')
+        .insert({
+            name: job.file_name,
+            type: 'application/pdf',
+            user_id: job.user_id,
+            status: 'indexing', // Pages were OCR'd by the job
+            file_hash: job.file_hash,
+            text_hash: textHash(pages),
+            metadata: {
+                ...ocrLanguageMetadata(job.language),
+                ...(reviewPages.length > 0 ? { lowConfidencePages: reviewPages } : {}),
+            },
+        })
+        .select()
+        .single();
+
+    if (docError) {
+        throw new Error(`Database Error: ${docError.message}`);
+    }
+
+    const embedFn = async (content: string): Promise<number[] | null> => {
+        const { data, error } = await supabaseAdmin.functions.invoke('embed', {
+            body: { input: content }
+        });
+        return error || !data?.embedding ? null : data.embedding;
+    };
+
+    const storeFn = async (chunk: ChunkRecord): Promise<boolean> => {
+        const { error } = await supabaseAdmin.from('chunks').upsert({
+            chunk_id: chunk.chunkId,
+            document_id: chunk.documentId,
+            content: chunk.content,
+            embedding: chunk.embedding,
+            metadata: {
+                ...chunk.metadata,
+                page: chunk.page,
+                chunkIndex: chunk.chunkIndex,
+                source: chunk.source,
+                documentName: chunk.documentName
+            },
+            chunk_index: chunk.chunkIndex
+        }, { onConflict: 'chunk_id' });
+        return !error;
+    };
+
+    const vecResult = await vectorizeIncrementally(
+        pages,
+        doc.id,
+        'ocr',
+        embedFn,
+        storeFn,
+        undefined,
+        undefined,
+        job.file_name
+    );
+
+    if (!vecResult.success) {
+        // Don't leave an empty document behind; the retry creates a fresh one
+        await supabaseAdmin.from('documents').delete().eq('id', doc.id);
+        throw new Error(vecResult.failureReason || vecResult.userMessage);
+    }
+
+    await storeOCRPages(supabaseAdmin, doc.id, pages);
+    await updateDocumentStatus(supabaseAdmin, doc.id, indexingOutcome(vecResult));
+
+    return doc.id;
+}
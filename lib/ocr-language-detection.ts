@@ -0,0 +1,59 @@
+/**
+ * OCR Language Detection
+ *
+ * Picks the OCR language of a page whose language wasn't chosen ('auto'):
+ * Tesseract OSD finds the script, then a stopword vote (ocr-languages.ts)
+ * picks among the languages written in it.
+ *
+ * Loads tesseract.js - import only from OCR code, never from modules loaded
+ * for every upload.
+ */
+
+import { createWorker, OEM, ImageLike, WorkerOptions } from 'tesseract.js';
+import { DEFAULT_OCR_LANGUAGE, languagesForScript, guessLanguageFromText } from './ocr-languages';
+
+/**
+ * Choose OCR language(s) from one page image:
+ * OSD finds the script, then a stopword vote picks among languages sharing it.
+ * Falls back to the default language if detection fails.
+ */
+export async function detectOCRLanguage(
+    image: ImageLike,
+    workerOptions: Partial<WorkerOptions> = {}
+): Promise<{ language: string; script?: string }> {
+    // OSD needs the legacy engine and its language data
+    const worker = await createWorker('osd', OEM.TESSERACT_ONLY, {
+        ...workerOptions,
+        legacyCore: true,
+        legacyLang: true,
+        logger: () => { },
+    }).catch(error => {
+        console.warn(`[OCR] Language detection unavailable, using ${DEFAULT_OCR_LANGUAGE}:`, error);
+        return null;
+    });
+    if (!worker) return { language: DEFAULT_OCR_LANGUAGE };
+
+    try {
+        const { data } = await worker.detect(image);
+        const script = data.script || undefined;
+        const candidates = languagesForScript(script);
+
+        if (candidates.length === 0) {
+            console.log(`[OCR] Script ${script || 'unknown'} not supported, using ${DEFAULT_OCR_LANGUAGE}`);
+            return { language: DEFAULT_OCR_LANGUAGE, script };
+        }
+        if (candidates.length === 1) {
+            return { language: candidates[0], script };
+        }
+
+        // Several languages share the script - sample the page with the most common one
+        await worker.reinitialize(candidates[0], OEM.LSTM_ONLY);
+        const sample = await worker.recognize(image);
+        return { language: guessLanguageFromText(sample.data.text, candidates), script };
+    } catch (error) {
+        console.warn(`[OCR] Language detection failed, using ${DEFAULT_OCR_LANGUAGE}:`, error);
+        return { language: DEFAULT_OCR_LANGUAGE };
+    } finally {
+        await worker.terminate();
+    }
+}
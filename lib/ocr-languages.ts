@@ -0,0 +1,140 @@
+/**
+ * OCR Languages
+ *
+ * Shared by the server OCR pipeline and the browser OCR processor:
+ * - Tesseract languages offered per upload ('auto' = detect from the first page)
+ * - Script → language mapping for Tesseract OSD (orientation & script detection)
+ * - Stopword vote to pick a language within a script (e.g. Latin → deu vs fra)
+ *
+ * No dependencies: imported at module load by the PDF pipeline, API routes and
+ * client components. Detection itself needs Tesseract and lives in
+ * ocr-language-detection.ts.
+ */
+
+// ============================================================================
+// Languages
+// ============================================================================
+
+export const OCR_AUTO_LANGUAGE = 'auto';
+export const DEFAULT_OCR_LANGUAGE = 'eng';
+
+export interface OCRLanguage {
+    code: string;       // Tesseract traineddata name
+    label: string;
+    script: string;     // Script name as reported by Tesseract OSD
+}
+
+export const OCR_LANGUAGES: OCRLanguage[] = [
+    { code: 'eng', label: 'English', script: 'Latin' },
+    { code: 'fra', label: 'French', script: 'Latin' },
+    { code: 'deu', label: 'German', script: 'Latin' },
+    { code: 'spa', label: 'Spanish', script: 'Latin' },
+    { code: 'ita', label: 'Italian', script: 'Latin' },
+    { code: 'por', label: 'Portuguese', script: 'Latin' },
+    { code: 'nld', label: 'Dutch', script: 'Latin' },
+    { code: 'pol', label: 'Polish', script: 'Latin' },
+    { code: 'tur', label: 'Turkish', script: 'Latin' },
+    { code: 'rus', label: 'Russian', script: 'Cyrillic' },
+    { code: 'ukr', label: 'Ukrainian', script: 'Cyrillic' },
+    { code: 'ell', label: 'Greek', script: 'Greek' },
+    { code: 'ara', label: 'Arabic', script: 'Arabic' },
+    { code: 'heb', label: 'Hebrew', script: 'Hebrew' },
+    { code: 'hin', label: 'Hindi', script: 'Devanagari' },
+    { code: 'tha', label: 'Thai', script: 'Thai' },
+    { code: 'chi_sim', label: 'Chinese (Simplified)', script: 'Han' },
+    { code: 'chi_tra', label: 'Chinese (Traditional)', script: 'Han' },
+    { code: 'jpn', label: 'Japanese', script: 'Japanese' },
+    { code: 'kor', label: 'Korean', script: 'Korean' },
+];
+
+const LANGUAGE_CODES = new Set(OCR_LANGUAGES.map(l => l.code));
+
+/**
+ * Normalize a requested language spec ('auto', 'deu' or 'deu+eng').
+ * Unknown codes are dropped; nothing left means auto-detect.
+ */
+export function normalizeOCRLanguage(value?: string | null): string {
+    const codes = (value || '')
+        .split('+')
+        .map(code => code.trim())
+        .filter(code => LANGUAGE_CODES.has(code));
+
+    return codes.length > 0 ? Array.from(new Set(codes)).join('+') : OCR_AUTO_LANGUAGE;
+}
+
+export function isAutoLanguage(language: string): boolean {
+    return language === OCR_AUTO_LANGUAGE;
+}
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+// OSD reports some scripts under alternative names
+const SCRIPT_ALIASES: Record<string, string> = {
+    Hangul: 'Korean',
+    Katakana: 'Japanese',
+    Hiragana: 'Japanese',
+    HanS: 'Han',
+    HanT: 'Han',
+};
+
+/**
+ * Languages written in an OSD-reported script, most common first
+ */
+export function languagesForScript(script: string | null | undefined): string[] {
+    if (!script) return [];
+    const name = SCRIPT_ALIASES[script] || script;
+    return OCR_LANGUAGES.filter(l => l.script === name).map(l => l.code);
+}
+
+const STOPWORDS: Record<string, string[]> = {
+    eng: ['the', 'and', 'of', 'to', 'in', 'is', 'that', 'for', 'with', 'this'],
+    fra: ['le', 'la', 'les', 'et', 'des', 'est', 'une', 'dans', 'pour', 'que'],
+    deu: ['der', 'die', 'und', 'das', 'ist', 'nicht', 'mit', 'den', 'von', 'auf'],
+    spa: ['el', 'los', 'las', 'del', 'que', 'por', 'una', 'con', 'para', 'es'],
+    ita: ['il', 'di', 'che', 'della', 'per', 'non', 'sono', 'gli', 'una', 'con'],
+    por: ['de', 'que', 'os', 'uma', 'para', 'com', 'não', 'em', 'do', 'da'],
+    nld: ['de', 'het', 'een', 'en', 'van', 'is', 'dat', 'niet', 'op', 'voor'],
+    pol: ['i', 'w', 'nie', 'się', 'na', 'że', 'jest', 'do', 'to', 'jak'],
+    tur: ['ve', 'bir', 'bu', 'için', 'ile', 'da', 'de', 'olarak', 'çok', 'gibi'],
+    rus: ['и', 'в', 'не', 'на', 'что', 'с', 'как', 'это', 'по', 'он'],
+    ukr: ['і', 'в', 'не', 'на', 'що', 'з', 'як', 'це', 'до', 'та'],
+};
+
+/**
+ * Pick the candidate whose stopwords occur most often in a sample of OCR text.
+ * Returns the first candidate when the sample is too short to vote.
+ */
+export function guessLanguageFromText(text: string, candidates: string[]): string {
+    const words = text.toLowerCase().split(/[\s\d.,;:!?()[\]"'«»„“”\-–—]+/).filter(Boolean);
+    let best = candidates[0];
+    let bestScore = 0;
+
+    for (const code of candidates) {
+        const stopwords = new Set(STOPWORDS[code] || []);
+        const score = words.filter(w => stopwords.has(w)).length;
+        if (score > bestScore) {
+            best = code;
+            bestScore = score;
+        }
+    }
+
+    return best;
+}
+
+// ============================================================================
+// Document Metadata
+// ============================================================================
+
+/**
+ * documents.metadata entries for an OCR'd document.
+ * `languages` is what retrieval filters on (see match_documents filter_language).
+ */
+export function ocrLanguageMetadata(language?: string, script?: string): Record<string, unknown> {
+    if (!language || isAutoLanguage(language)) return {};
+    return {
+        languages: language.split('+'),
+        ...(script ? { ocrScript: script } : {}),
+    };
+}
@@ -1,8 +1,10 @@
 /**
- * OCR Pipeline for Scanned PDFs
+ * OCR Pipeline for Scanned PDFs and Images
  * 
  * Uses:
  * - pdf-to-png-converter: PDF pages → PNG images (no binary dependencies)
+ * - sharp: uploaded images (incl. multi-page TIFF) → oriented PNG pages
+ * - canvas: optional cleanup before recognition (see ocr-preprocess.ts)
  * - tesseract.js: PNG images → text (no API key needed)
  * 
  * Design principles:
@@ -11,11 +13,18 @@
  * - Progress reporting
  * - Memory cleanup between pages
  * - OCR is explicit, never silent
+ * - Language 'auto': script detected (Tesseract OSD) on the first page
  */
 
 import { pdfToPng, PngPageOutput } from 'pdf-to-png-converter';
 import { createWorker, Worker } from 'tesseract.js';
+import sharp from 'sharp';
 import path from 'path';
+import type { ExtractedPage, OCRWord } from './pdf-pipeline';
+import { flattenWords, isLowConfidence, PREVIEW_MAX_WIDTH } from './ocr-review';
+import type { PreprocessConfig } from './ocr-preprocess';
+import { DEFAULT_OCR_LANGUAGE, isAutoLanguage } from './ocr-languages';
+import { detectOCRLanguage } from './ocr-language-detection';
 
 // ============================================================================
 // Configuration
@@ -26,8 +35,11 @@ export interface OCRConfig {
     totalTimeoutMs: number;     // Total timeout for entire document
     batchSize: number;          // Pages to OCR before yielding
     scale: number;              // Image scale (higher = better quality, more memory)
-    language: string;           // Tesseract language
+    language: string;           // Tesseract language(s), e.g. 'eng' or 'deu+eng'; 'auto' detects
     maxPages: number;           // Maximum pages to OCR
+    preprocess: boolean;        // Grayscale, denoise, deskew, binarize and crop pages before OCR
+    preprocessing?: Partial<PreprocessConfig>;  // Per-step overrides (defaults in ocr-preprocess.ts)
+    password?: string;          // Password for encrypted PDFs
 }
 
 export const DEFAULT_OCR_CONFIG: OCRConfig = {
@@ -35,8 +47,9 @@ export const DEFAULT_OCR_CONFIG: OCRConfig = {
     totalTimeoutMs: 300_000,    // 5 minutes total
     batchSize: 3,               // 3 pages per batch
     scale: 2.0,                 // 2x scale for better OCR
-    language: 'eng',            // English
+    language: DEFAULT_OCR_LANGUAGE, // English
     maxPages: 100,              // Max 100 pages for OCR
+    preprocess: true,           // Skewed / uneven photos OCR far better cleaned up
 };
 
 // ============================================================================
@@ -46,11 +59,24 @@ export const DEFAULT_OCR_CONFIG: OCRConfig = {
 export interface OCRResult {
     success: boolean;
     text: string;
+    pages: ExtractedPage[];     // One entry per page that produced text
     pageCount: number;
     pagesProcessed: number;
     processingTimeMs: number;
     userMessage: string;
-    failureReason?: 'TIMEOUT' | 'TOO_MANY_PAGES' | 'RENDER_FAILED' | 'OCR_FAILED';
+    language?: string;          // Language(s) actually used (resolved when 'auto' was requested)
+    detectedScript?: string;    // OSD script of the first page (auto-detect only)
+    failureReason?: 'TIMEOUT' | 'TOO_MANY_PAGES' | 'RENDER_FAILED' | 'OCR_FAILED' | 'CANCELLED';
+}
+
+/**
+ * Optional hooks for long-running (async job) OCR
+ */
+export interface OCRRunOptions {
+    pages?: number[];                                              // Only render/recognize these 1-based pages
+    onPageComplete?: (page: ExtractedPage) => Promise<void> | void; // Per-page checkpoint
+    shouldCancel?: () => Promise<boolean> | boolean;               // Checked between pages
+    background?: boolean;                                          // Async job: queued apart from uploads
 }
 
 export interface OCRProgress {
@@ -69,7 +95,9 @@ const OCR_MESSAGES = {
     TIMEOUT: 'OCR processing timed out. Try with fewer pages.',
     TOO_MANY_PAGES: 'PDF has too many pages for OCR. Maximum is 100 pages.',
     RENDER_FAILED: 'Failed to render PDF pages for OCR.',
+    IMAGE_FAILED: 'Could not read this image. Supported formats: PNG, JPG, TIFF, WebP, GIF.',
     OCR_FAILED: 'Text recognition failed.',
+    CANCELLED: 'OCR was cancelled.',
     PROCESSING: 'Performing OCR on scanned document...',
 };
 
@@ -105,21 +133,23 @@ class Semaphore {
     }
 }
 
-// Only 1 concurrent OCR job (very resource intensive)
+// Only 1 concurrent OCR per queue (very resource intensive). Async jobs run for
+// up to an hour, so they get their own permit and never hold up an upload.
 const ocrSemaphore = new Semaphore(1);
+const backgroundOcrSemaphore = new Semaphore(1);
 
 // ============================================================================
 // OCR Pipeline Implementation
 // ============================================================================
 
+const WORKER_PATH = path.join(process.cwd(), 'node_modules/tesseract.js/src/worker-script/node/index.js');
+
 /**
  * Initialize Tesseract worker
  */
 async function initWorker(language: string): Promise<Worker> {
-    const workerPath = path.join(process.cwd(), 'node_modules/tesseract.js/src/worker-script/node/index.js');
-
     const worker = await createWorker(language, 1, {
-        workerPath,
+        workerPath: WORKER_PATH,
         // Reduce logging noise
         logger: () => { },
     });
@@ -135,85 +165,163 @@ async function ocrPage(
     imageBuffer: Buffer,
     pageNum: number,
     timeoutMs: number
-): Promise<{ text: string; success: boolean }> {
+): Promise<{ text: string; confidence: number; words: OCRWord[]; success: boolean }> {
     return new Promise(async (resolve) => {
         const timeout = setTimeout(() => {
             console.log(`[OCR] Page ${pageNum} timed out after ${timeoutMs}ms`);
-            resolve({ text: '', success: false });
+            resolve({ text: '', confidence: 0, words: [], success: false });
         }, timeoutMs);
 
         try {
-            const result = await worker.recognize(imageBuffer);
+            const result = await worker.recognize(imageBuffer, {}, { text: true, blocks: true });
             clearTimeout(timeout);
-            resolve({ text: result.data.text, success: true });
+            resolve({ text: result.data.text, confidence: result.data.confidence, words: flattenWords(result.data.blocks), success: true });
         } catch (error) {
             clearTimeout(timeout);
             console.error(`[OCR] Page ${pageNum} failed:`, error);
-            resolve({ text: '', success: false });
+            resolve({ text: '', confidence: 0, words: [], success: false });
         }
     });
 }
 
 /**
- * Main OCR Pipeline Entry Point
+ * A page image to recognize, decoded lazily: PDFs are rendered a batch
+ * (config.batchSize pages) at a time, images decode one page at a time
+ */
+interface PageImage {
+    pageNumber: number;
+    load: () => Promise<Buffer | null>;
+}
+
+/**
+ * Main OCR Pipeline Entry Point (scanned PDFs)
+ * `options.pages` is required: rendering only the next batch needs the page
+ * list up front, and the callers know it (classification, low-text pages, job).
  */
 export async function performOCR(
     pdfBuffer: Buffer,
-    config: OCRConfig = DEFAULT_OCR_CONFIG,
-    onProgress?: (progress: OCRProgress) => void
+    config: OCRConfig,
+    onProgress: ((progress: OCRProgress) => void) | undefined,
+    options: OCRRunOptions & { pages: number[] }
 ): Promise<OCRResult> {
-    const startTime = Date.now();
     const fileSizeMB = (pdfBuffer.length / 1024 / 1024).toFixed(2);
+    console.log(`[OCR Pipeline] START: ${fileSizeMB}MB PDF, ${options.pages.length} pages, config: scale=${config.scale}, timeout=${config.totalTimeoutMs}ms`);
+
+    return recognizePages(async () => {
+        const pageNumbers = options.pages;
+        let batch = new Map<number, Buffer | null>();
+
+        // Phase 1: Render PDF pages to PNG images, one batch at a time (the previous batch is dropped)
+        const render = async (pageNumber: number): Promise<Buffer | null> => {
+            if (!batch.has(pageNumber)) {
+                const start = pageNumbers.indexOf(pageNumber);
+                const next = pageNumbers.slice(start, start + config.batchSize);
+                console.log(`[OCR Pipeline] Rendering pages ${next.join(', ')} to images...`);
+
+                // Fresh ArrayBuffer copy for pdf-to-png-converter (PDF.js may take ownership of it)
+                const arrayBuffer = pdfBuffer.buffer.slice(
+                    pdfBuffer.byteOffset,
+                    pdfBuffer.byteOffset + pdfBuffer.byteLength
+                );
+
+                const pngPages: PngPageOutput[] = await pdfToPng(arrayBuffer, {
+                    viewportScale: config.scale,
+                    // Don't write to disk, keep in memory
+                    outputFolder: undefined,
+                    pagesToProcess: next,
+                    pdfFilePassword: config.password,
+                });
+
+                batch = new Map(next.map(n => [n, null]));
+                pngPages.forEach(page => batch.set(page.pageNumber, page.content ? Buffer.from(page.content) : null));
+            }
+            return batch.get(pageNumber) ?? null;
+        };
 
-    console.log(`[OCR Pipeline] START: ${fileSizeMB}MB, config: scale=${config.scale}, timeout=${config.totalTimeoutMs}ms`);
+        // Render the first batch now: an unreadable PDF (wrong password, corrupt) fails here as a whole
+        if (pageNumbers.length > 0) await render(pageNumbers[0]);
 
-    // Acquire semaphore (only 1 concurrent OCR)
-    await ocrSemaphore.acquire();
+        return pageNumbers.map(pageNumber => ({
+            pageNumber,
+            load: () => render(pageNumber),
+        }));
+    }, OCR_MESSAGES.RENDER_FAILED, config, onProgress, options);
+}
+
+/**
+ * Image OCR Entry Point (PNG/JPG/TIFF/WebP...)
+ * Skips PDF rendering; multi-page TIFFs are recognized page by page.
+ * EXIF orientation is applied so phone photos aren't read sideways.
+ */
+export async function performImageOCR(
+    imageBuffer: Buffer,
+    config: OCRConfig = DEFAULT_OCR_CONFIG,
+    onProgress?: (progress: OCRProgress) => void,
+    options: OCRRunOptions = {}
+): Promise<OCRResult> {
+    const fileSizeMB = (imageBuffer.length / 1024 / 1024).toFixed(2);
+    console.log(`[OCR Pipeline] START: ${fileSizeMB}MB image, timeout=${config.totalTimeoutMs}ms`);
+
+    return recognizePages(async () => {
+        const { pages = 1 } = await sharp(imageBuffer).metadata();
+        const pageNumbers = options.pages || Array.from({ length: pages }, (_, i) => i + 1);
+
+        return pageNumbers.map(pageNumber => ({
+            pageNumber,
+            load: () => sharp(imageBuffer, { page: pageNumber - 1 }).rotate().png().toBuffer(),
+        }));
+    }, OCR_MESSAGES.IMAGE_FAILED, config, onProgress, options);
+}
+
+/**
+ * Shared OCR loop: load page images, then recognize them one by one
+ */
+async function recognizePages(
+    loadPages: () => Promise<PageImage[]>,
+    loadFailedMessage: string,
+    config: OCRConfig,
+    onProgress: ((progress: OCRProgress) => void) | undefined,
+    options: OCRRunOptions
+): Promise<OCRResult> {
+    const startTime = Date.now();
+
+    // Acquire semaphore (only 1 concurrent OCR per queue)
+    const semaphore = options.background ? backgroundOcrSemaphore : ocrSemaphore;
+    await semaphore.acquire();
 
     let worker: Worker | null = null;
 
     try {
-        // Phase 1: Convert PDF to PNG images
-        console.log(`[OCR Pipeline] Rendering PDF pages to images...`);
-
         if (onProgress) {
             onProgress({ currentPage: 0, totalPages: 0, phase: 'rendering', percentComplete: 0 });
         }
 
-        let pngPages: PngPageOutput[];
+        let pageImages: PageImage[];
         try {
-            // Convert Buffer to ArrayBuffer for pdf-to-png-converter
-            const arrayBuffer = pdfBuffer.buffer.slice(
-                pdfBuffer.byteOffset,
-                pdfBuffer.byteOffset + pdfBuffer.byteLength
-            );
-
-            pngPages = await pdfToPng(arrayBuffer, {
-                viewportScale: config.scale,
-                // Don't write to disk, keep in memory
-                outputFolder: undefined,
-            });
+            pageImages = await loadPages();
         } catch (renderError) {
-            console.error(`[OCR Pipeline] PDF render failed:`, renderError);
+            console.error(`[OCR Pipeline] Page images unavailable:`, renderError);
             return {
                 success: false,
                 text: '',
+                pages: [],
                 pageCount: 0,
                 pagesProcessed: 0,
                 processingTimeMs: Date.now() - startTime,
-                userMessage: OCR_MESSAGES.RENDER_FAILED,
+                userMessage: loadFailedMessage,
                 failureReason: 'RENDER_FAILED'
             };
         }
 
-        const totalPages = pngPages.length;
-        console.log(`[OCR Pipeline] Rendered ${totalPages} pages`);
+        const totalPages = pageImages.length;
+        console.log(`[OCR Pipeline] ${totalPages} page images ready`);
 
         if (totalPages > config.maxPages) {
             console.log(`[OCR Pipeline] Too many pages: ${totalPages} > ${config.maxPages}`);
             return {
                 success: false,
                 text: '',
+                pages: [],
                 pageCount: totalPages,
                 pagesProcessed: 0,
                 processingTimeMs: Date.now() - startTime,
@@ -222,22 +330,72 @@ export async function performOCR(
             };
         }
 
-        // Phase 2: Initialize Tesseract
-        console.log(`[OCR Pipeline] Initializing Tesseract worker (${config.language})...`);
-        worker = await initWorker(config.language);
+        // Phase 2: Resolve language (auto-detect on the first decodable page)
+        let language = config.language;
+        let detectedScript: string | undefined;
 
-        // Phase 3: OCR each page
-        const textParts: string[] = [];
+        if (isAutoLanguage(language)) {
+            const firstImage = await pageImages[0]?.load().catch(() => null);
+            ({ language, script: detectedScript } = firstImage
+                ? await detectOCRLanguage(firstImage, { workerPath: WORKER_PATH })
+                : { language: DEFAULT_OCR_LANGUAGE, script: undefined });
+            console.log(`[OCR Pipeline] Detected language: ${language} (script: ${detectedScript || 'unknown'})`);
+        }
+
+        // Phase 3: Initialize Tesseract (and the preprocessor, which needs the canvas native binding)
+        console.log(`[OCR Pipeline] Initializing Tesseract worker (${language})...`);
+        worker = await initWorker(language);
+
+        const preprocessor = config.preprocess
+            ? await import('./ocr-preprocess').catch(error => {
+                console.warn(`[OCR Pipeline] Preprocessing unavailable, using raw page images:`, error);
+                return null;
+            })
+            : null;
+        const preprocessing = preprocessor
+            ? { ...preprocessor.DEFAULT_PREPROCESS_CONFIG, ...config.preprocessing }
+            : undefined;
+
+        // Phase 4: OCR each page
+        const ocrPages: ExtractedPage[] = [];
         let pagesProcessed = 0;
 
         for (let i = 0; i < totalPages; i++) {
-            // Check total timeout
+            // Check total timeout (pages done so far are returned, and were checkpointed)
             if (Date.now() - startTime > config.totalTimeoutMs) {
-                console.log(`[OCR Pipeline] Total timeout exceeded`);
-                break;
+                console.log(`[OCR Pipeline] Total timeout exceeded after ${pagesProcessed} pages`);
+                return {
+                    success: false,
+                    text: ocrPages.map(p => p.text).join('\n\n').trim(),
+                    pages: ocrPages,
+                    pageCount: totalPages,
+                    pagesProcessed,
+                    processingTimeMs: Date.now() - startTime,
+                    userMessage: OCR_MESSAGES.TIMEOUT,
+                    language,
+                    detectedScript,
+                    failureReason: 'TIMEOUT'
+                };
             }
 
-            const page = pngPages[i];
+            // Check cancellation (async jobs)
+            if (options.shouldCancel && await options.shouldCancel()) {
+                console.log(`[OCR Pipeline] Cancelled after ${pagesProcessed} pages`);
+                return {
+                    success: false,
+                    text: ocrPages.map(p => p.text).join('\n\n').trim(),
+                    pages: ocrPages,
+                    pageCount: totalPages,
+                    pagesProcessed,
+                    processingTimeMs: Date.now() - startTime,
+                    userMessage: OCR_MESSAGES.CANCELLED,
+                    language,
+                    detectedScript,
+                    failureReason: 'CANCELLED'
+                };
+            }
+
+            const page = pageImages[i];
 
             if (onProgress) {
                 onProgress({
@@ -248,23 +406,54 @@ export async function performOCR(
                 });
             }
 
-            console.log(`[OCR Pipeline] Processing page ${i + 1}/${totalPages}...`);
+            console.log(`[OCR Pipeline] Processing page ${page.pageNumber} (${i + 1}/${totalPages})...`);
 
-            // Ensure page content exists
-            if (!page.content) {
-                console.warn(`[OCR Pipeline] Page ${i + 1} has no content, skipping`);
-                textParts.push('');
+            // Decode the page image (skip empty / unreadable pages)
+            const image = await page.load().catch(error => {
+                console.error(`[OCR Pipeline] Page ${page.pageNumber} could not be decoded:`, error);
+                return null;
+            });
+            if (!image) {
+                console.warn(`[OCR Pipeline] Page ${page.pageNumber} has no content, skipping`);
                 continue;
             }
 
-            const result = await ocrPage(worker, Buffer.from(page.content), i + 1, config.pageTimeoutMs);
+            // Clean up the page for recognition (the preview below keeps the original)
+            const input = preprocessor
+                ? await preprocessor.preprocessImage(image, preprocessing).catch(error => {
+                    console.warn(`[OCR Pipeline] Page ${page.pageNumber} preprocessing failed, using raw image:`, error);
+                    return image;
+                })
+                : image;
+
+            const result = await ocrPage(worker, input, page.pageNumber, config.pageTimeoutMs);
 
             if (result.success) {
-                textParts.push(result.text);
+                const ocrPageText: ExtractedPage = {
+                    pageNumber: page.pageNumber,
+                    text: result.text.trim(),
+                    source: 'ocr',
+                    confidence: result.confidence,
+                    words: result.words,
+                };
+
+                // Keep a small rendering of doubtful pages so users can check the text against it
+                if (isLowConfidence(result.confidence)) {
+                    ocrPageText.preview = await sharp(image)
+                        .resize({ width: PREVIEW_MAX_WIDTH, withoutEnlargement: true })
+                        .jpeg({ quality: 70 })
+                        .toBuffer()
+                        .catch(() => undefined);
+                }
+
+                ocrPages.push(ocrPageText);
                 pagesProcessed++;
+
+                if (options.onPageComplete) {
+                    await options.onPageComplete(ocrPageText);
+                }
             } else {
-                console.warn(`[OCR Pipeline] Page ${i + 1} failed, continuing...`);
-                textParts.push(''); // Empty placeholder
+                console.warn(`[OCR Pipeline] Page ${page.pageNumber} failed, continuing...`);
             }
 
             // Log batch progress
@@ -273,8 +462,8 @@ export async function performOCR(
             }
         }
 
-        // Phase 4: Assemble result
-        const fullText = textParts.join('\n\n').trim();
+        // Phase 5: Assemble result
+        const fullText = ocrPages.map(p => p.text).join('\n\n').trim();
         const processingTimeMs = Date.now() - startTime;
 
         console.log(`[OCR Pipeline] SUCCESS: ${fullText.length} chars from ${pagesProcessed}/${totalPages} pages in ${processingTimeMs}ms`);
@@ -291,10 +480,13 @@ export async function performOCR(
         return {
             success: true,
             text: fullText,
+            pages: ocrPages,
             pageCount: totalPages,
             pagesProcessed,
             processingTimeMs,
-            userMessage: OCR_MESSAGES.SUCCESS
+            userMessage: OCR_MESSAGES.SUCCESS,
+            language,
+            detectedScript
         };
 
     } catch (error) {
@@ -304,6 +496,7 @@ export async function performOCR(
         return {
             success: false,
             text: '',
+            pages: [],
             pageCount: 0,
             pagesProcessed: 0,
             processingTimeMs: Date.now() - startTime,
@@ -316,6 +509,6 @@ export async function performOCR(
             await worker.terminate();
             console.log(`[OCR Pipeline] Worker terminated`);
         }
-        ocrSemaphore.release();
+        semaphore.release();
     }
 }
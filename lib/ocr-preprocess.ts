@@ -0,0 +1,336 @@
+/**
+ * OCR Image Preprocessing
+ *
+ * Cleans up a page image before Tesseract sees it (phone photos, skewed scans):
+ * 1. Grayscale
+ * 2. Denoise (3x3 median)
+ * 3. Deskew by projection profile (the angle whose row histogram is sharpest)
+ * 4. Adaptive threshold (Bradley local mean) → black text on white
+ * 5. Border crop (dark scanner edges, then white margins around the content)
+ *
+ * Uses node-canvas; loaded lazily by ocr-pipeline.ts only when preprocessing is on.
+ */
+
+import { createCanvas, loadImage, Canvas } from 'canvas';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export interface PreprocessConfig {
+    denoise: boolean;           // 3x3 median filter before thresholding
+    binarize: boolean;          // Adaptive threshold to pure black/white
+    thresholdWindow: number;    // Local window as a fraction of image width
+    thresholdBias: number;      // Pixel is ink if darker than (1 - bias) × local mean
+    deskew: boolean;
+    maxSkewDegrees: number;     // Search range (±)
+    cropBorders: boolean;
+    borderMargin: number;       // Pixels of white kept around the content
+}
+
+export const DEFAULT_PREPROCESS_CONFIG: PreprocessConfig = {
+    denoise: true,
+    binarize: true,
+    thresholdWindow: 1 / 16,
+    thresholdBias: 0.15,
+    deskew: true,
+    maxSkewDegrees: 15,
+    cropBorders: true,
+    borderMargin: 20,
+};
+
+// Skew search: coarse sweep, then refine around the best coarse angle
+const COARSE_STEP_DEGREES = 1;
+const FINE_STEP_DEGREES = 0.1;
+const MIN_SKEW_DEGREES = 0.2;          // Smaller angles aren't worth a resample
+const SKEW_SAMPLE_MAX_WIDTH = 800;     // Skew is estimated on a downscaled copy
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface GrayImage {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;   // One luminance byte per pixel (0 = black)
+}
+
+// ============================================================================
+// Canvas Helpers
+// ============================================================================
+
+function canvasToGray(canvas: Canvas): GrayImage {
+    const { width, height } = canvas;
+    const rgba = canvas.getContext('2d').getImageData(0, 0, width, height).data;
+    const data = new Uint8ClampedArray(width * height);
+
+    for (let i = 0, p = 0; p < data.length; i += 4, p++) {
+        // Transparent pixels count as white paper
+        const alpha = rgba[i + 3] / 255;
+        const luma = 0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2];
+        data[p] = luma * alpha + 255 * (1 - alpha);
+    }
+
+    return { width, height, data };
+}
+
+function grayToCanvas(image: GrayImage): Canvas {
+    const canvas = createCanvas(image.width, image.height);
+    const ctx = canvas.getContext('2d');
+    const imageData = ctx.createImageData(image.width, image.height);
+
+    for (let p = 0, i = 0; p < image.data.length; p++, i += 4) {
+        imageData.data[i] = imageData.data[i + 1] = imageData.data[i + 2] = image.data[p];
+        imageData.data[i + 3] = 255;
+    }
+
+    ctx.putImageData(imageData, 0, 0);
+    return canvas;
+}
+
+function scaleGray(image: GrayImage, maxWidth: number): GrayImage {
+    if (image.width <= maxWidth) return image;
+
+    const scale = maxWidth / image.width;
+    const canvas = createCanvas(maxWidth, Math.max(1, Math.round(image.height * scale)));
+    canvas.getContext('2d').drawImage(grayToCanvas(image), 0, 0, canvas.width, canvas.height);
+    return canvasToGray(canvas);
+}
+
+// ============================================================================
+// Filters
+// ============================================================================
+
+/**
+ * 3x3 median filter (removes salt-and-pepper speckle without blurring strokes much)
+ */
+function medianFilter(image: GrayImage): GrayImage {
+    const { width, height, data } = image;
+    const out = new Uint8ClampedArray(data);
+    const window = new Array<number>(9);
+
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            let k = 0;
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    window[k++] = data[(y + dy) * width + x + dx];
+                }
+            }
+            window.sort((a, b) => a - b);
+            out[y * width + x] = window[4];
+        }
+    }
+
+    return { width, height, data: out };
+}
+
+/**
+ * Bradley adaptive threshold: ink where a pixel is darker than its local mean
+ * by more than `bias`. Handles uneven lighting that a global threshold can't.
+ */
+function adaptiveThreshold(image: GrayImage, windowFraction: number, bias: number): GrayImage {
+    const { width, height, data } = image;
+    const half = Math.max(4, Math.round((width * windowFraction) / 2));
+
+    // Integral image for O(1) window sums
+    const integral = new Float64Array((width + 1) * (height + 1));
+    for (let y = 0; y < height; y++) {
+        let rowSum = 0;
+        for (let x = 0; x < width; x++) {
+            rowSum += data[y * width + x];
+            integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+        }
+    }
+
+    const out = new Uint8ClampedArray(width * height);
+    for (let y = 0; y < height; y++) {
+        const y0 = Math.max(0, y - half);
+        const y1 = Math.min(height, y + half + 1);
+        for (let x = 0; x < width; x++) {
+            const x0 = Math.max(0, x - half);
+            const x1 = Math.min(width, x + half + 1);
+            const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+                - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+            const mean = sum / ((x1 - x0) * (y1 - y0));
+            out[y * width + x] = data[y * width + x] < mean * (1 - bias) ? 0 : 255;
+        }
+    }
+
+    return { width, height, data: out };
+}
+
+// ============================================================================
+// Deskew
+// ============================================================================
+
+/**
+ * Sharpness of the row histogram when ink is projected at `degrees`:
+ * text lines aligned with the rows give tall peaks and empty gaps.
+ */
+function projectionScore(ink: Int32Array, width: number, height: number, degrees: number): number {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const offset = Math.ceil(width * Math.abs(sin));
+    const bins = new Float64Array(height + 2 * offset + 1);
+
+    for (let i = 0; i < ink.length; i += 2) {
+        const x = ink[i];
+        const y = ink[i + 1];
+        bins[Math.round(y * cos - x * sin) + offset]++;
+    }
+
+    let score = 0;
+    for (let i = 1; i < bins.length; i++) {
+        const diff = bins[i] - bins[i - 1];
+        score += diff * diff;
+    }
+    return score;
+}
+
+/**
+ * Estimate page skew in degrees (positive = text rotated clockwise)
+ */
+function estimateSkew(image: GrayImage, maxDegrees: number): number {
+    const sample = adaptiveThreshold(scaleGray(image, SKEW_SAMPLE_MAX_WIDTH), DEFAULT_PREPROCESS_CONFIG.thresholdWindow, DEFAULT_PREPROCESS_CONFIG.thresholdBias);
+
+    const coords: number[] = [];
+    for (let y = 0; y < sample.height; y++) {
+        for (let x = 0; x < sample.width; x++) {
+            if (sample.data[y * sample.width + x] === 0) coords.push(x, y);
+        }
+    }
+    if (coords.length === 0) return 0;
+    const ink = Int32Array.from(coords);
+
+    const search = (from: number, to: number, step: number): number => {
+        let best = 0;
+        let bestScore = -1;
+        for (let angle = from; angle <= to + 1e-9; angle += step) {
+            const score = projectionScore(ink, sample.width, sample.height, angle);
+            if (score > bestScore) {
+                bestScore = score;
+                best = angle;
+            }
+        }
+        return best;
+    };
+
+    const coarse = search(-maxDegrees, maxDegrees, COARSE_STEP_DEGREES);
+    const fine = search(coarse - COARSE_STEP_DEGREES, coarse + COARSE_STEP_DEGREES, FINE_STEP_DEGREES);
+    return Math.round(fine * 10) / 10 || 0;
+}
+
+function rotateGray(image: GrayImage, degrees: number): GrayImage {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.abs(Math.sin(radians));
+    const cos = Math.abs(Math.cos(radians));
+    const width = Math.ceil(image.width * cos + image.height * sin);
+    const height = Math.ceil(image.width * sin + image.height * cos);
+
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.translate(width / 2, height / 2);
+    ctx.rotate(radians);
+    ctx.drawImage(grayToCanvas(image), -image.width / 2, -image.height / 2);
+
+    return canvasToGray(canvas);
+}
+
+// ============================================================================
+// Border Crop
+// ============================================================================
+
+function cropGray(image: GrayImage, left: number, top: number, right: number, bottom: number): GrayImage {
+    const width = right - left;
+    const height = bottom - top;
+    const data = new Uint8ClampedArray(width * height);
+
+    for (let y = 0; y < height; y++) {
+        data.set(image.data.subarray((top + y) * image.width + left, (top + y) * image.width + right), y * width);
+    }
+    return { width, height, data };
+}
+
+/**
+ * Strip dark scanner/photo edges (rows/columns that are mostly ink),
+ * then trim white margins to the content plus `margin` pixels
+ */
+function cropBorders(image: GrayImage, margin: number): GrayImage {
+    const { width, height, data } = image;
+    const isInk = (x: number, y: number) => data[y * width + x] < 128;
+    const rowInk = (y: number, x0: number, x1: number) => { let n = 0; for (let x = x0; x < x1; x++) if (isInk(x, y)) n++; return n; };
+    const colInk = (x: number, y0: number, y1: number) => { let n = 0; for (let y = y0; y < y1; y++) if (isInk(x, y)) n++; return n; };
+
+    // 1. Dark edges
+    let top = 0, bottom = height, left = 0, right = width;
+    while (top < bottom - 1 && rowInk(top, left, right) > (right - left) / 2) top++;
+    while (bottom - 1 > top && rowInk(bottom - 1, left, right) > (right - left) / 2) bottom--;
+    while (left < right - 1 && colInk(left, top, bottom) > (bottom - top) / 2) left++;
+    while (right - 1 > left && colInk(right - 1, top, bottom) > (bottom - top) / 2) right--;
+
+    // 2. White margins
+    let contentTop = top, contentBottom = bottom, contentLeft = left, contentRight = right;
+    while (contentTop < contentBottom && rowInk(contentTop, left, right) === 0) contentTop++;
+    while (contentBottom > contentTop && rowInk(contentBottom - 1, left, right) === 0) contentBottom--;
+    while (contentLeft < contentRight && colInk(contentLeft, contentTop, contentBottom) === 0) contentLeft++;
+    while (contentRight > contentLeft && colInk(contentRight - 1, contentTop, contentBottom) === 0) contentRight--;
+
+    // Blank page - leave it alone
+    if (contentBottom <= contentTop || contentRight <= contentLeft) return image;
+
+    const cropped = cropGray(
+        image,
+        Math.max(left, contentLeft - margin),
+        Math.max(top, contentTop - margin),
+        Math.min(right, contentRight + margin),
+        Math.min(bottom, contentBottom + margin)
+    );
+    return cropped;
+}
+
+// ============================================================================
+// Main Entry Point
+// ============================================================================
+
+/**
+ * Preprocess a page image for OCR. Returns a PNG.
+ */
+export async function preprocessImage(
+    imageBuffer: Buffer,
+    config: PreprocessConfig = DEFAULT_PREPROCESS_CONFIG
+): Promise<Buffer> {
+    const startTime = Date.now();
+    const source = await loadImage(imageBuffer);
+    const canvas = createCanvas(source.width, source.height);
+    canvas.getContext('2d').drawImage(source, 0, 0);
+
+    let image = canvasToGray(canvas);
+
+    if (config.denoise) {
+        image = medianFilter(image);
+    }
+
+    let skew = 0;
+    if (config.deskew) {
+        skew = estimateSkew(image, config.maxSkewDegrees);
+        if (Math.abs(skew) >= MIN_SKEW_DEGREES) {
+            image = rotateGray(image, -skew);
+        }
+    }
+
+    if (config.binarize) {
+        image = adaptiveThreshold(image, config.thresholdWindow, config.thresholdBias);
+    }
+
+    if (config.cropBorders) {
+        image = cropBorders(image, config.borderMargin);
+    }
+
+    console.log(`[OCR Preprocess] ${source.width}x${source.height} → ${image.width}x${image.height}, skew ${skew}° in ${Date.now() - startTime}ms`);
+
+    return grayToCanvas(image).toBuffer('image/png');
+}
@@ -0,0 +1,178 @@
+/**
+ * OCR Review
+ *
+ * Confidence bookkeeping for OCR'd documents:
+ * - Word confidences flattened from Tesseract output (server and browser OCR)
+ * - Pages below LOW_CONFIDENCE_THRESHOLD keep a rendered preview in private Storage
+ * - `document_pages` holds each OCR page's text, confidence and preview so
+ *   users can review and correct it (re-embedding happens in app/actions.ts)
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Block } from 'tesseract.js';
+import type { OCRWord } from './pdf-pipeline';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const LOW_CONFIDENCE_THRESHOLD = 70;     // Mean word confidence (0-100) below which a page needs review
+export const PREVIEW_MAX_WIDTH = 1200;          // Preview images are downscaled to this width (px)
+// Previews show user documents: the private bucket (DOCUMENT_FILES_BUCKET, supabase.ts),
+// read through short-lived signed URLs (SIGNED_URL_TTL_SECONDS)
+const PREVIEW_BUCKET = 'document-files';
+const PREVIEW_URL_TTL_SECONDS = 10 * 60;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface OCRPageRecord {
+    pageNumber: number;
+    text: string;
+    confidence?: number;
+    preview?: Buffer;           // Rendered page to upload (low-confidence pages only)
+    previewPath?: string;       // ...or its Storage path if already uploaded (async OCR jobs)
+}
+
+export interface PreviewStorage {
+    client: SupabaseClient;     // Needs Storage write access (service role)
+    pathPrefix: string;         // e.g. `${userId}/ocr-previews/${documentId}`
+}
+
+export interface OCRReviewPage {
+    pageNumber: number;
+    text: string;
+    confidence: number | null;
+    previewUrl: string | null;
+    corrected: boolean;
+}
+
+// ============================================================================
+// Confidence Helpers
+// ============================================================================
+
+/**
+ * Flatten Tesseract blocks into words (in reading order)
+ */
+export function flattenWords(blocks: Block[] | null): OCRWord[] {
+    return (blocks || []).flatMap(block =>
+        block.paragraphs.flatMap(paragraph =>
+            paragraph.lines.flatMap(line =>
+                line.words
+                    .filter(word => word.text.trim())
+                    .map(word => ({ text: word.text.trim(), confidence: word.confidence })))));
+}
+
+export function isLowConfidence(confidence: number | null | undefined): boolean {
+    return typeof confidence === 'number' && confidence < LOW_CONFIDENCE_THRESHOLD;
+}
+
+/**
+ * Page numbers needing review, kept on documents.metadata.lowConfidencePages
+ */
+export function lowConfidencePages(pages: { pageNumber: number; confidence?: number }[]): number[] {
+    return pages.filter(p => isLowConfidence(p.confidence)).map(p => p.pageNumber);
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Upload a page preview, returning its Storage path
+ */
+export async function uploadPagePreview(
+    storage: PreviewStorage,
+    pageNumber: number,
+    preview: Buffer
+): Promise<string | undefined> {
+    const previewPath = `${storage.pathPrefix}/page-${pageNumber}.jpg`;
+    const { error } = await storage.client.storage
+        .from(PREVIEW_BUCKET)
+        .upload(previewPath, preview, { contentType: 'image/jpeg', upsert: true });
+
+    if (error) {
+        console.error(`[OCRReview] Preview upload failed for page ${pageNumber}:`, error.message);
+        return undefined;
+    }
+    return previewPath;
+}
+
+/**
+ * Save OCR page text/confidence (and upload previews) for review.
+ * Failures are logged, not thrown: the document is still searchable without its review data.
+ */
+export async function storeOCRPages(
+    client: SupabaseClient,
+    documentId: string,
+    pages: OCRPageRecord[],
+    previewStorage?: PreviewStorage
+): Promise<void> {
+    const rows = [];
+    for (const page of pages) {
+        if (page.confidence === undefined) continue;
+
+        const previewPath = page.preview && previewStorage
+            ? await uploadPagePreview(previewStorage, page.pageNumber, page.preview)
+            : page.previewPath;
+
+        rows.push({
+            document_id: documentId,
+            page_number: page.pageNumber,
+            text: page.text,
+            confidence: page.confidence,
+            preview_path: previewPath ?? null,
+        });
+    }
+
+    if (rows.length === 0) return;
+
+    const { error } = await client.from('document_pages').upsert(rows);
+    if (error) {
+        console.error('[OCRReview] Failed to store OCR pages:', error.message);
+    }
+}
+
+/**
+ * Low-confidence (and already corrected) pages of a document, worst first.
+ * Previews are signed with `storage` (service role), only inside the user's own folder.
+ */
+export async function loadReviewPages(
+    client: SupabaseClient,
+    storage: SupabaseClient,
+    userId: string,
+    documentId: string
+): Promise<OCRReviewPage[]> {
+    const { data, error } = await client
+        .from('document_pages')
+        .select('page_number, text, confidence, preview_path, corrected')
+        .eq('document_id', documentId)
+        .or(`confidence.lt.${LOW_CONFIDENCE_THRESHOLD},corrected.eq.true`)
+        .order('confidence', { ascending: true });
+
+    if (error) {
+        throw new Error(`Failed to load OCR pages: ${error.message}`);
+    }
+
+    const previewPaths: string[] = (data || [])
+        .map(row => row.preview_path)
+        .filter((p): p is string => typeof p === 'string' && p.startsWith(`${userId}/`));
+    const signedUrls = new Map<string, string>();
+
+    if (previewPaths.length > 0) {
+        const { data: signed, error: signError } = await storage.storage
+            .from(PREVIEW_BUCKET)
+            .createSignedUrls(previewPaths, PREVIEW_URL_TTL_SECONDS);
+        if (signError) console.error('[OCRReview] Signing previews failed:', signError.message);
+        (signed || []).forEach(s => { if (s.path && s.signedUrl) signedUrls.set(s.path, s.signedUrl); });
+    }
+
+    return (data || []).map(row => ({
+        pageNumber: row.page_number,
+        text: row.text,
+        confidence: row.confidence,
+        previewUrl: (row.preview_path && signedUrls.get(row.preview_path)) || null,
+        corrected: row.corrected,
+    }));
+}
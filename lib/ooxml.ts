@@ -0,0 +1,85 @@
+/**
+ * Office Open XML Packages
+ *
+ * Shared reading for PPTX and XLSX (see pptx-pipeline.ts, xlsx-pipeline.ts):
+ * - The file is a zip of XML parts, read through the ZIP pipeline (streaming size limits)
+ * - Parts reference each other through relationship files (_rels/*.rels)
+ * - DrawingML text (a:p paragraphs of a:t runs) is the same in slides and notes
+ */
+
+import path from 'path';
+import { parse, HTMLElement } from 'node-html-parser';
+import { openZip, ZipEntry, PACKAGE_ZIP_CONFIG } from './zip-pipeline';
+
+// Password-protected Office files are OLE compound documents, not zips
+const COMPOUND_FILE_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+export interface OoxmlPackage {
+    read: (partPath: string) => Promise<HTMLElement | null>;   // Parsed XML part, null if absent
+}
+
+export interface Relationship {
+    target: string;             // Part path inside the package
+    type: string;               // Relationship type URI
+}
+
+/**
+ * Open a PPTX/XLSX file. Throws a user-facing message when it can't be read.
+ */
+export async function openPackage(buffer: Buffer, formatName: string): Promise<OoxmlPackage> {
+    if (buffer.subarray(0, COMPOUND_FILE_SIGNATURE.length).equals(COMPOUND_FILE_SIGNATURE)) {
+        throw new Error(`This ${formatName} file is password-protected or in a legacy format and cannot be processed.`);
+    }
+
+    const listing = await openZip(buffer, PACKAGE_ZIP_CONFIG);
+    if (!listing.success) {
+        throw new Error(listing.failureReason === 'CORRUPTED' ? `This file is not a valid ${formatName} file or is corrupted.` : listing.userMessage);
+    }
+
+    const parts = new Map<string, ZipEntry>(listing.entries.map(e => [e.path, e]));
+    return {
+        read: async (partPath) => {
+            const part = parts.get(partPath);
+            return part ? parse((await part.read()).toString('utf-8')) : null;
+        },
+    };
+}
+
+/**
+ * Relationships of a part by id (r:id), targets resolved to part paths
+ */
+export async function readRelationships(pkg: OoxmlPackage, partPath: string): Promise<Map<string, Relationship>> {
+    const dir = path.posix.dirname(partPath);
+    const rels = await pkg.read(path.posix.join(dir, '_rels', `${path.posix.basename(partPath)}.rels`));
+    const relationships = new Map<string, Relationship>();
+
+    for (const rel of rels?.getElementsByTagName('Relationship') || []) {
+        const id = rel.getAttribute('Id');
+        const target = rel.getAttribute('Target');
+        if (!id || !target || rel.getAttribute('TargetMode') === 'External') continue;
+        relationships.set(id, {
+            // Absolute targets start at the package root
+            target: target.startsWith('/') ? target.slice(1) : path.posix.normalize(path.posix.join(dir, target)),
+            type: rel.getAttribute('Type') || '',
+        });
+    }
+    return relationships;
+}
+
+/**
+ * Text of DrawingML paragraphs (a:p) under an element, one line per paragraph
+ */
+export function paragraphText(element: HTMLElement): string[] {
+    return element.getElementsByTagName('a:p')
+        .map(paragraph => paragraph.childNodes
+            .map(node => {
+                const el = node as HTMLElement;
+                const tag = el.rawTagName;
+                if (tag === 'a:r' || tag === 'a:fld') return el.getElementsByTagName('a:t').map(t => t.text).join('');
+                if (tag === 'a:br') return '\n';
+                return '';
+            })
+            .join('')
+            .trim())
+        .filter(Boolean);
+}
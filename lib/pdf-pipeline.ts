@@ -11,6 +11,7 @@
  */
 
 import PDFParser from 'pdf2json';
+import { DEFAULT_OCR_LANGUAGE } from './ocr-languages';
 
 // OCR is loaded dynamically to avoid native binding issues at module load time
 
@@ -25,6 +26,7 @@ export interface PipelineConfig {
     classificationPages: number;
     minTextThreshold: number;
     mixedTextRatio: number;  // Ratio below which a page is considered low-text
+    detectTables: boolean;   // Emit column-aligned text regions as Markdown tables
 
     // Type-specific page limits
     maxPagesTextBased: number;     // Max pages for TEXT_BASED (sync)
@@ -36,6 +38,10 @@ export interface PipelineConfig {
 
     // OCR opt-in
     ocrEnabled: boolean;           // Must be explicitly true for OCR to run
+    ocrLanguage: string;           // Tesseract language(s) for OCR, or 'auto' to detect
+
+    // Per-document password for encrypted PDFs (never logged or stored)
+    password?: string;
 }
 
 export const DEFAULT_CONFIG: PipelineConfig = {
@@ -45,6 +51,7 @@ export const DEFAULT_CONFIG: PipelineConfig = {
     classificationPages: 5,           // pages to sample for classification
     minTextThreshold: 100,            // minimum total chars to consider text-based
     mixedTextRatio: 0.3,              // if <30% of pages have text, consider MIXED
+    detectTables: true,               // Markdown tables from pdf2json x/y layout
 
     // Type-specific page limits
     maxPagesTextBased: 200,          // TEXT_BASED: max 200 pages
@@ -56,6 +63,7 @@ export const DEFAULT_CONFIG: PipelineConfig = {
 
     // OCR opt-in (default OFF - must be explicitly enabled)
     ocrEnabled: false,
+    ocrLanguage: DEFAULT_OCR_LANGUAGE,
 };
 
 // ============================================================================
@@ -69,14 +77,38 @@ export type PDFClassification =
     | 'ENCRYPTED'
     | 'CORRUPTED';
 
-export type ExtractionSource = 'pdf2json' | 'ocr' | 'hybrid';
+export type ExtractionSource = 'pdf2json' | 'ocr' | 'hybrid' | 'mammoth' | 'papaparse' | 'json' | 'code' | 'epub' | 'pptx' | 'xlsx' | 'html' | 'text';
+
+/**
+ * A single page of extracted text, keyed by its real page number
+ * (non-paginated formats use their logical sections, e.g. DOCX headings, CSV row groups, JSON records, EPUB chapters)
+ */
+export interface ExtractedPage {
+    pageNumber: number;          // 1-based, matches the page index in the source PDF
+    text: string;
+    source: ExtractionSource;
+    metadata?: Record<string, unknown>;  // Copied onto every chunk of this page
+
+    // OCR pages only
+    confidence?: number;         // Mean word confidence (0-100)
+    words?: OCRWord[];           // Per-word confidences, used to score each chunk (not stored)
+    preview?: Buffer;            // Rendered page (JPEG), kept only for low-confidence review
+}
+
+export interface OCRWord {
+    text: string;
+    confidence: number;          // 0-100
+}
 
 /**
  * Unified extraction result - all pipelines return this structure
+ * (other formats via the extractor registry, see extractors.ts)
  */
 export interface ExtractedDocument {
     success: boolean;
     text: string;
+    // Per-page text in page order (empty on failure, and for unpaginated plain text)
+    pages: ExtractedPage[];
     pageCount: number;
     source: ExtractionSource;
     classification: PDFClassification;
@@ -88,6 +120,10 @@ export interface ExtractedDocument {
     // Optional: only set on failure
     failureReason?: 'SCANNED' | 'ENCRYPTED' | 'CORRUPTED' | 'TIMEOUT' | 'TOO_LARGE' | 'EMPTY' | 'TOO_MANY_PAGES';
 
+    // Encrypted PDFs: set when a (correct) password is needed to continue
+    requiresPassword?: boolean;
+    passwordIncorrect?: boolean;   // A password was given but rejected
+
     // OCR opt-in flow
     requiresOCR?: boolean;
     ocrEstimate?: {
@@ -99,6 +135,10 @@ export interface ExtractedDocument {
 
     // Extraction completeness status
     extractionStatus?: 'COMPLETE' | 'PARTIAL' | 'REQUIRES_OCR';
+
+    // OCR'd documents: language(s) used and, when auto-detected, the detected script
+    ocrLanguage?: string;
+    ocrScript?: string;
 }
 
 export interface ExtractionProgress {
@@ -116,6 +156,8 @@ interface ClassificationResult {
     totalTextLength: number;
     pagesWithText: number;
     textDensity: number;  // ratio of pages with meaningful text
+    pageTextLengths: number[];  // decoded text length of every page (index = page - 1)
+    passwordIncorrect?: boolean;  // ENCRYPTED only: the supplied password was rejected
 }
 
 // ============================================================================
@@ -128,7 +170,10 @@ const USER_MESSAGES: Record<string, string> = {
     SCANNED_OCR_REQUIRED: 'This PDF is scanned and requires OCR. Click "Run OCR" to extract text.',
     MIXED: 'This PDF contains a mix of text and scanned pages. Partial text extracted.',
     MIXED_PARTIAL: 'Extracted text from text-based pages. Some scanned pages could not be processed without OCR.',
+    MIXED_HYBRID: 'Extracted text from text-based pages and ran OCR on scanned pages.',
+    MIXED_TOO_MANY_OCR_PAGES: 'Extracted text from text-based pages. Too many scanned pages to OCR in one pass.',
     ENCRYPTED: 'This PDF is password-protected and cannot be processed.',
+    PASSWORD_INCORRECT: 'The password for this PDF is incorrect.',
     CORRUPTED: 'This file is not a valid PDF or is corrupted.',
     TIMEOUT: 'Processing timed out. The PDF may be too complex.',
     TOO_LARGE: 'File size exceeds the maximum allowed (50MB).',
@@ -244,12 +289,21 @@ function validatePDF(
 // Phase 1: Cheap Classification Pass
 // ============================================================================
 
+/**
+ * Map a pdf.js PasswordException (surfaced by pdf2json) to a reason
+ */
+function getPasswordError(message: string): 'NEED_PASSWORD' | 'INCORRECT_PASSWORD' | null {
+    if (/no password given/i.test(message)) return 'NEED_PASSWORD';
+    if (/incorrect password/i.test(message)) return 'INCORRECT_PASSWORD';
+    return null;
+}
+
 async function classifyPDF(
     buffer: Buffer,
     config: PipelineConfig
 ): Promise<ClassificationResult> {
     return new Promise((resolve) => {
-        const pdfParser = new PDFParser(null, true);
+        const pdfParser = new PDFParser(null, true, config.password);
         let resolved = false;
         const warnings: string[] = [];
 
@@ -263,7 +317,8 @@ async function classifyPDF(
                     pageCount: 0,
                     totalTextLength: 0,
                     pagesWithText: 0,
-                    textDensity: 0
+                    textDensity: 0,
+                    pageTextLengths: []
                 });
             }
         }, 10000);
@@ -273,7 +328,26 @@ async function classifyPDF(
         pdfParser.on("pdfParser_dataError", (errData: any) => {
             // Only log, don't resolve as CORRUPTED yet
             // pdf2json will still emit dataReady if it can extract some data
-            const message = errData?.parserError?.message || errData?.message || 'Unknown parse error';
+            const message = errData?.parserError?.message || errData?.message || String(errData?.parserError || 'Unknown parse error');
+
+            // Encryption is fatal and known - no need to wait for the timeout
+            const passwordError = getPasswordError(message);
+            if (passwordError && !resolved) {
+                resolved = true;
+                clearTimeout(timeout);
+                console.log(`[Classification] ENCRYPTED (${passwordError})`);
+                resolve({
+                    type: 'ENCRYPTED',
+                    pageCount: 0,
+                    totalTextLength: 0,
+                    pagesWithText: 0,
+                    textDensity: 0,
+                    pageTextLengths: [],
+                    passwordIncorrect: passwordError === 'INCORRECT_PASSWORD'
+                });
+                return;
+            }
+
             warnings.push(message);
             console.log(`[Classification] Warning (non-fatal): ${message}`);
         });
@@ -301,18 +375,15 @@ async function classifyPDF(
                         pageCount: 0,
                         totalTextLength: 0,
                         pagesWithText: 0,
-                        textDensity: 0
+                        textDensity: 0,
+                        pageTextLengths: []
                     });
                     return;
                 }
 
-                // Sample first N pages
-                const samplesToCheck = Math.min(config.classificationPages, pageCount);
-                let totalTextLength = 0;
-                let pagesWithText = 0;
-
-                for (let i = 0; i < samplesToCheck; i++) {
-                    const page = pages[i];
+                // Per-page text length for every page (used by the hybrid pipeline)
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                const pageTextLengths: number[] = pages.map((page: any) => {
                     let pageTextLength = 0;
 
                     if (page?.Texts) {
@@ -329,6 +400,17 @@ async function classifyPDF(
                         });
                     }
 
+                    return pageTextLength;
+                });
+
+                // Sample first N pages
+                const samplesToCheck = Math.min(config.classificationPages, pageCount);
+                let totalTextLength = 0;
+                let pagesWithText = 0;
+
+                for (let i = 0; i < samplesToCheck; i++) {
+                    const pageTextLength = pageTextLengths[i];
+
                     totalTextLength += pageTextLength;
                     if (pageTextLength > 20) {  // Page has meaningful text
                         pagesWithText++;
@@ -357,7 +439,8 @@ async function classifyPDF(
                     pageCount,
                     totalTextLength,
                     pagesWithText,
-                    textDensity
+                    textDensity,
+                    pageTextLengths
                 });
             } catch (e) {
                 // Hard parse error in our code - still try to not mark as CORRUPTED
@@ -367,7 +450,8 @@ async function classifyPDF(
                     pageCount: 0,
                     totalTextLength: 0,
                     pagesWithText: 0,
-                    textDensity: 0
+                    textDensity: 0,
+                    pageTextLengths: []
                 });
             }
         });
@@ -378,18 +462,296 @@ async function classifyPDF(
     });
 }
 
+// ============================================================================
+// Table Detection (pdf2json layout)
+// ============================================================================
+
+// pdf2json page units are 16 PDF points each
+const POINTS_PER_UNIT = 16;
+const AVG_CHAR_WIDTH_EM = 0.5;        // Average glyph width as a fraction of font size
+const LINE_Y_TOLERANCE = 0.25;        // Runs within this y distance share a line
+const CELL_GAP_UNITS = 1.0;           // Horizontal gap that separates two cells
+const COLUMN_X_TOLERANCE = 1.5;       // Cell starts within this x distance share a column
+const MAX_ROW_GAP_UNITS = 2.5;        // Larger vertical gaps end a table region
+const MIN_TABLE_ROWS = 3;             // Header + at least 2 body rows
+const MIN_TABLE_COLUMNS = 2;
+const MAX_AVG_CELL_LENGTH = 30;       // Longer cells are prose columns, not tables
+
+interface TextRun {
+    index: number;    // Position in pdf2json stream order
+    x: number;
+    y: number;
+    width: number;
+    text: string;
+}
+
+interface LayoutCell {
+    x: number;
+    runs: TextRun[];
+    text: string;
+}
+
+interface LayoutLine {
+    y: number;
+    cells: LayoutCell[];
+}
+
+/**
+ * Decode a page's pdf2json Texts into positioned runs (stream order preserved)
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function readTextRuns(texts: any[]): TextRun[] {
+    const runs: TextRun[] = [];
+
+    texts.forEach((t, index) => {
+        if (!t.R?.[0]?.T) return;
+        try {
+            const text = decodeURIComponent(t.R[0].T);
+            const fontSize = t.R[0].TS?.[1] || 12;
+            runs.push({
+                index,
+                x: t.x || 0,
+                y: t.y || 0,
+                width: (text.length * fontSize * AVG_CHAR_WIDTH_EM) / POINTS_PER_UNIT,
+                text,
+            });
+        } catch {
+            // URI malformed - ignore this text element
+        }
+    });
+
+    return runs;
+}
+
+/**
+ * Group runs into lines by y, and runs within a line into cells by x gaps
+ */
+function buildLayoutLines(runs: TextRun[]): LayoutLine[] {
+    const sorted = [...runs].sort((a, b) => a.y - b.y || a.x - b.x);
+    const lines: { y: number; runs: TextRun[] }[] = [];
+
+    for (const run of sorted) {
+        const line = lines[lines.length - 1];
+        if (line && Math.abs(run.y - line.y) <= LINE_Y_TOLERANCE) {
+            line.runs.push(run);
+        } else {
+            lines.push({ y: run.y, runs: [run] });
+        }
+    }
+
+    return lines.map(line => {
+        const lineRuns = line.runs.sort((a, b) => a.x - b.x);
+        const cells: LayoutCell[] = [];
+
+        for (const run of lineRuns) {
+            const cell = cells[cells.length - 1];
+            const previous = cell?.runs[cell.runs.length - 1];
+            if (cell && previous && run.x - (previous.x + previous.width) < CELL_GAP_UNITS) {
+                cell.runs.push(run);
+                cell.text += ' ' + run.text;
+            } else {
+                cells.push({ x: run.x, runs: [run], text: run.text });
+            }
+        }
+
+        cells.forEach(c => { c.text = c.text.replace(/\s+/g, ' ').trim(); });
+        return { y: line.y, cells: cells.filter(c => c.text.length > 0) };
+    });
+}
+
+/**
+ * Cluster cell x-starts into column anchors (mean x of each cluster)
+ */
+function findColumnAnchors(lines: LayoutLine[]): number[] {
+    const starts = lines.flatMap(l => l.cells.map(c => c.x)).sort((a, b) => a - b);
+    const clusters: number[][] = [];
+
+    for (const x of starts) {
+        const cluster = clusters[clusters.length - 1];
+        if (cluster && x - cluster[cluster.length - 1] <= COLUMN_X_TOLERANCE) {
+            cluster.push(x);
+        } else {
+            clusters.push([x]);
+        }
+    }
+
+    return clusters.map(c => c.reduce((sum, x) => sum + x, 0) / c.length);
+}
+
+function nearestColumn(anchors: number[], x: number): number {
+    let best = 0;
+    for (let i = 1; i < anchors.length; i++) {
+        if (Math.abs(anchors[i] - x) < Math.abs(anchors[best] - x)) best = i;
+    }
+    return best;
+}
+
+function escapeTableCell(text: string): string {
+    return text.replace(/\|/g, '\\|');
+}
+
+/**
+ * Render a detected table region as a Markdown table
+ */
+function renderMarkdownTable(lines: LayoutLine[], anchors: number[]): string {
+    const rows = lines.map(line => {
+        const row: string[] = new Array(anchors.length).fill('');
+        for (const cell of line.cells) {
+            const col = nearestColumn(anchors, cell.x);
+            row[col] = row[col] ? `${row[col]} ${cell.text}` : cell.text;
+        }
+        return row.map(escapeTableCell);
+    });
+
+    const [header, ...body] = rows;
+    return [
+        `| ${header.join(' | ')} |`,
+        `| ${header.map(() => '---').join(' | ')} |`,
+        ...body.map(row => `| ${row.join(' | ')} |`),
+    ].join('\n');
+}
+
+/**
+ * Check whether a run of consecutive multi-cell lines looks like a table:
+ * enough rows, stable column count, short cells (not two-column prose)
+ */
+function isTableRegion(lines: LayoutLine[]): { isTable: boolean; anchors: number[] } {
+    if (lines.length < MIN_TABLE_ROWS) return { isTable: false, anchors: [] };
+
+    const anchors = findColumnAnchors(lines);
+    if (anchors.length < MIN_TABLE_COLUMNS) return { isTable: false, anchors };
+
+    const cells = lines.flatMap(l => l.cells);
+    const avgCellLength = cells.reduce((sum, c) => sum + c.text.length, 0) / cells.length;
+    if (avgCellLength > MAX_AVG_CELL_LENGTH) return { isTable: false, anchors };
+
+    // Every column must be used by at least half the rows; a caption or
+    // ragged prose line introduces columns nothing else lines up with
+    const columnHits = new Array(anchors.length).fill(0);
+    for (const line of lines) {
+        new Set(line.cells.map(c => nearestColumn(anchors, c.x))).forEach(col => columnHits[col]++);
+    }
+    const isTable = columnHits.every(hits => hits >= lines.length / 2);
+    return { isTable, anchors };
+}
+
+/**
+ * Find the longest table-shaped line ranges inside a candidate region.
+ * Multi-cell lines just above or below a table (captions, footnotes)
+ * would otherwise skew the column anchors and hide the table.
+ */
+function findTablesInRegion(region: LayoutLine[]): { lines: LayoutLine[]; anchors: number[] }[] {
+    const found: { lines: LayoutLine[]; anchors: number[] }[] = [];
+    let start = 0;
+
+    while (start <= region.length - MIN_TABLE_ROWS) {
+        let match: { end: number; anchors: number[] } | null = null;
+
+        for (let end = region.length; end - start >= MIN_TABLE_ROWS; end--) {
+            const { isTable, anchors } = isTableRegion(region.slice(start, end));
+            if (isTable) {
+                match = { end, anchors };
+                break;
+            }
+        }
+
+        if (match) {
+            found.push({ lines: region.slice(start, match.end), anchors: match.anchors });
+            start = match.end;
+        } else {
+            start++;
+        }
+    }
+
+    return found;
+}
+
+/**
+ * Build page text from pdf2json Texts, emitting column-aligned regions as
+ * Markdown tables. Non-table text keeps pdf2json stream order.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function buildPageText(texts: any[], detectTables: boolean): { text: string; tableCount: number } {
+    const runs = readTextRuns(texts);
+
+    if (!detectTables) {
+        return { text: runs.map(r => r.text).join(' '), tableCount: 0 };
+    }
+
+    // Find table regions: consecutive multi-cell lines with small vertical gaps
+    const lines = buildLayoutLines(runs);
+    const tables: { markdown: string; runIndexes: Set<number> }[] = [];
+    let region: LayoutLine[] = [];
+
+    const closeRegion = () => {
+        for (const table of findTablesInRegion(region)) {
+            tables.push({
+                markdown: renderMarkdownTable(table.lines, table.anchors),
+                runIndexes: new Set(table.lines.flatMap(l => l.cells.flatMap(c => c.runs.map(r => r.index)))),
+            });
+        }
+        region = [];
+    };
+
+    for (const line of lines) {
+        const previous = region[region.length - 1];
+        if (line.cells.length >= MIN_TABLE_COLUMNS && (!previous || line.y - previous.y <= MAX_ROW_GAP_UNITS)) {
+            region.push(line);
+        } else {
+            closeRegion();
+            if (line.cells.length >= MIN_TABLE_COLUMNS) region.push(line);
+        }
+    }
+    closeRegion();
+
+    if (tables.length === 0) {
+        return { text: runs.map(r => r.text).join(' '), tableCount: 0 };
+    }
+
+    // Walk runs in stream order, replacing each table's runs with its Markdown
+    const parts: string[] = [];
+    const emitted = new Set<number>();
+    let prose: string[] = [];
+
+    for (const run of runs) {
+        const tableIdx = tables.findIndex(t => t.runIndexes.has(run.index));
+        if (tableIdx === -1) {
+            prose.push(run.text);
+            continue;
+        }
+        if (!emitted.has(tableIdx)) {
+            if (prose.length > 0) parts.push(prose.join(' '));
+            prose = [];
+            parts.push(tables[tableIdx].markdown);
+            emitted.add(tableIdx);
+        }
+    }
+    if (prose.length > 0) parts.push(prose.join(' '));
+
+    return { text: parts.join('\n\n'), tableCount: tables.length };
+}
+
 // ============================================================================
 // Phase 3A: Text Extraction Pipeline (TEXT_BASED)
 // ============================================================================
 
+/**
+ * Trim a page's text and strip pdf2json page-break markers
+ */
+function cleanPageText(pageText: string): string {
+    return pageText
+        .replace(/----------------Page \(\d+\) Break----------------/g, '')
+        .trim();
+}
+
 async function extractTextPipeline(
     buffer: Buffer,
     pageCount: number,
     config: PipelineConfig,
     onProgress?: (progress: ExtractionProgress) => void
-): Promise<{ text: string; success: boolean }> {
+): Promise<{ text: string; pages: ExtractedPage[]; success: boolean }> {
     return new Promise((resolve, reject) => {
-        const pdfParser = new PDFParser(null, true);
+        const pdfParser = new PDFParser(null, true, config.password);
         let resolved = false;
 
         const timeout = setTimeout(() => {
@@ -424,7 +786,7 @@ async function extractTextPipeline(
                 }
 
                 const totalBatches = Math.ceil(totalPages / config.batchSize);
-                const textParts: string[] = [];
+                const extractedPages: ExtractedPage[] = [];
                 let extractedChars = 0;
 
                 // Page-batched extraction
@@ -437,20 +799,18 @@ async function extractTextPipeline(
                         let pageText = '';
 
                         if (page?.Texts) {
-                            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                            page.Texts.forEach((t: any) => {
-                                if (t.R?.[0]?.T) {
-                                    try {
-                                        pageText += decodeURIComponent(t.R[0].T) + ' ';
-                                    } catch {
-                                        // URI malformed - ignore this text element
-                                        // Common in PDFs with special characters
-                                    }
-                                }
-                            });
+                            const built = buildPageText(page.Texts, config.detectTables);
+                            pageText = built.text;
+                            if (built.tableCount > 0) {
+                                console.log(`[TextPipeline] Page ${i + 1}: ${built.tableCount} table(s) detected`);
+                            }
                         }
 
-                        textParts.push(pageText.trim());
+                        extractedPages.push({
+                            pageNumber: i + 1,
+                            text: cleanPageText(pageText),
+                            source: 'pdf2json'
+                        });
                         extractedChars += pageText.length;
 
                         if (onProgress) {
@@ -468,11 +828,10 @@ async function extractTextPipeline(
                     console.log(`[TextPipeline] Batch ${batch + 1}/${totalBatches} (pages ${startIdx + 1}-${endIdx})`);
                 }
 
-                // Assemble and clean
-                const fullText = textParts.join('\n').trim();
-                const cleanedText = fullText.replace(/----------------Page \(\d+\) Break----------------/g, '');
+                // Assemble full text from the per-page results
+                const fullText = extractedPages.map(p => p.text).join('\n').trim();
 
-                resolve({ text: cleanedText, success: true });
+                resolve({ text: fullText, pages: extractedPages, success: true });
             } catch (e) {
                 reject(e);
             }
@@ -482,6 +841,81 @@ async function extractTextPipeline(
     });
 }
 
+// ============================================================================
+// Phase 3B: Hybrid Pipeline (MIXED)
+// ============================================================================
+
+// Pages at or below this many characters have no usable text layer
+const MIN_PAGE_TEXT_LENGTH = 20;
+
+/**
+ * Find pages whose text layer is too thin to trust.
+ * A page is low-text when it is (nearly) empty, or when its text length is
+ * below `mixedTextRatio` of the median text page in the same document.
+ * Returns 1-based page numbers.
+ */
+function findLowTextPages(pageTextLengths: number[], config: PipelineConfig): number[] {
+    const textPageLengths = pageTextLengths
+        .filter(len => len > MIN_PAGE_TEXT_LENGTH)
+        .sort((a, b) => a - b);
+    const median = textPageLengths.length > 0
+        ? textPageLengths[Math.floor(textPageLengths.length / 2)]
+        : 0;
+
+    return pageTextLengths
+        .map((len, idx) => ({ len, pageNumber: idx + 1 }))
+        .filter(({ len }) => len <= MIN_PAGE_TEXT_LENGTH || (median > 0 && len / median < config.mixedTextRatio))
+        .map(({ pageNumber }) => pageNumber);
+}
+
+/**
+ * OCR only the low-text pages and merge with text-layer pages in page order.
+ * Each merged page keeps its own source ('pdf2json' or 'ocr').
+ */
+async function runHybridOCR(
+    buffer: Buffer,
+    textPages: ExtractedPage[],
+    lowTextPages: number[],
+    config: PipelineConfig,
+    onProgress?: (progress: ExtractionProgress) => void
+): Promise<{ pages: ExtractedPage[]; ocrPagesUsed: number; language?: string; script?: string } | null> {
+    const { performOCR, DEFAULT_OCR_CONFIG } = await import('./ocr-pipeline');
+
+    const ocrResult = await performOCR(buffer, { ...DEFAULT_OCR_CONFIG, language: config.ocrLanguage, password: config.password }, (ocrProgress) => {
+        if (onProgress) {
+            onProgress({
+                currentPage: ocrProgress.currentPage,
+                totalPages: ocrProgress.totalPages,
+                currentBatch: 0,
+                totalBatches: 0,
+                extractedChars: 0,
+                phase: 'extracting'
+            });
+        }
+    }, { pages: lowTextPages });
+
+    if (!ocrResult.success) {
+        console.log(`[HybridPipeline] OCR failed: ${ocrResult.userMessage}`);
+        return null;
+    }
+
+    const ocrByPage = new Map(ocrResult.pages.map(p => [p.pageNumber, p]));
+    let ocrPagesUsed = 0;
+
+    // Prefer OCR text only where it recovered more than the text layer had
+    const pages = textPages.map(page => {
+        const ocrPage = ocrByPage.get(page.pageNumber);
+        if (ocrPage && ocrPage.text.length > page.text.length) {
+            ocrPagesUsed++;
+            return ocrPage;
+        }
+        return page;
+    });
+
+    console.log(`[HybridPipeline] OCR'd ${lowTextPages.length} low-text pages, used ${ocrPagesUsed}`);
+    return { pages, ocrPagesUsed, language: ocrResult.language, script: ocrResult.detectedScript };
+}
+
 // ============================================================================
 // Main Pipeline Entry Point
 // ============================================================================
@@ -502,6 +936,7 @@ export async function extractPDFText(
         return {
             success: false,
             text: '',
+            pages: [],
             pageCount: 0,
             source: 'pdf2json',
             classification: 'CORRUPTED',
@@ -525,16 +960,21 @@ export async function extractPDFText(
         // Phase 2: Pipeline Selection (deterministic, no fallbacks)
         switch (classification.type) {
             case 'ENCRYPTED':
-                console.log(`[PDFPipeline] ENCRYPTED - cannot process`);
+                console.log(`[PDFPipeline] ENCRYPTED - ${classification.passwordIncorrect ? 'incorrect password' : 'password required'}`);
                 return {
                     success: false,
                     text: '',
+                    pages: [],
                     pageCount: classification.pageCount,
                     source: 'pdf2json',
                     classification: 'ENCRYPTED',
                     processingTimeMs: Date.now() - startTime,
-                    userMessage: USER_MESSAGES.ENCRYPTED,
-                    failureReason: 'ENCRYPTED'
+                    userMessage: classification.passwordIncorrect
+                        ? USER_MESSAGES.PASSWORD_INCORRECT
+                        : USER_MESSAGES.ENCRYPTED,
+                    failureReason: 'ENCRYPTED',
+                    requiresPassword: true,
+                    passwordIncorrect: classification.passwordIncorrect,
                 };
 
             case 'CORRUPTED':
@@ -542,6 +982,7 @@ export async function extractPDFText(
                 return {
                     success: false,
                     text: '',
+                    pages: [],
                     pageCount: 0,
                     source: 'pdf2json',
                     classification: 'CORRUPTED',
@@ -559,6 +1000,7 @@ export async function extractPDFText(
                     return {
                         success: false,
                         text: '',
+                        pages: [],
                         pageCount: classification.pageCount,
                         source: 'pdf2json',
                         classification: 'SCANNED',
@@ -577,6 +1019,7 @@ export async function extractPDFText(
                     return {
                         success: false,
                         text: '',
+                        pages: [],
                         pageCount: classification.pageCount,
                         source: 'pdf2json',
                         classification: 'SCANNED',
@@ -595,6 +1038,7 @@ export async function extractPDFText(
                     return {
                         success: false,
                         text: '',
+                        pages: [],
                         pageCount: classification.pageCount,
                         source: 'pdf2json',
                         classification: 'SCANNED',
@@ -608,9 +1052,9 @@ export async function extractPDFText(
 
                 // OCR enabled and within sync limits - perform OCR
                 try {
-                    const { performOCR } = await import('./ocr-pipeline');
+                    const { performOCR, DEFAULT_OCR_CONFIG } = await import('./ocr-pipeline');
 
-                    const ocrResult = await performOCR(buffer, undefined, (ocrProgress) => {
+                    const ocrResult = await performOCR(buffer, { ...DEFAULT_OCR_CONFIG, language: config.ocrLanguage, password: config.password }, (ocrProgress) => {
                         if (onProgress) {
                             onProgress({
                                 currentPage: ocrProgress.currentPage,
@@ -621,11 +1065,12 @@ export async function extractPDFText(
                                 phase: 'extracting'
                             });
                         }
-                    });
+                    }, { pages: Array.from({ length: classification.pageCount }, (_, i) => i + 1) });
 
                     return {
                         success: ocrResult.success,
                         text: ocrResult.text,
+                        pages: ocrResult.pages,
                         pageCount: ocrResult.pageCount,
                         source: 'ocr' as ExtractionSource,
                         classification: 'SCANNED',
@@ -633,12 +1078,15 @@ export async function extractPDFText(
                         userMessage: ocrResult.userMessage,
                         failureReason: ocrResult.success ? undefined : (ocrResult.failureReason as ExtractedDocument['failureReason']),
                         extractionStatus: ocrResult.success ? 'COMPLETE' : 'REQUIRES_OCR',
+                        ocrLanguage: ocrResult.language,
+                        ocrScript: ocrResult.detectedScript,
                     };
                 } catch (ocrLoadError) {
                     console.error('[PDFPipeline] OCR module failed to load:', ocrLoadError);
                     return {
                         success: false,
                         text: '',
+                        pages: [],
                         pageCount: classification.pageCount,
                         source: 'pdf2json' as ExtractionSource,
                         classification: 'SCANNED',
@@ -652,9 +1100,9 @@ export async function extractPDFText(
                 break;
 
             case 'MIXED':
-                // For MIXED, we extract what we can with text pipeline
-                // In future: hybrid pipeline with selective OCR
-                console.log(`[PDFPipeline] MIXED - extracting available text`);
+                // For MIXED, extract the text layer first; low-text pages
+                // are OCR'd afterwards when OCR is enabled (hybrid)
+                console.log(`[PDFPipeline] MIXED - extracting available text${config.ocrEnabled ? ' (hybrid OCR enabled)' : ''}`);
                 break;
 
             case 'TEXT_BASED':
@@ -669,11 +1117,46 @@ export async function extractPDFText(
 
         const result = await extractTextPipeline(buffer, classification.pageCount, config, onProgress);
 
+        // Phase 3B: Hybrid OCR for the scanned pages of a MIXED document
+        let source: ExtractionSource = 'pdf2json';
+        let userMessage = classification.type === 'MIXED'
+            ? USER_MESSAGES.MIXED_PARTIAL
+            : USER_MESSAGES.TEXT_BASED_SUCCESS;
+        let extractionStatus: ExtractedDocument['extractionStatus'] = classification.type === 'MIXED' ? 'PARTIAL' : 'COMPLETE';
+        let ocrEstimate: ExtractedDocument['ocrEstimate'];
+        let ocrLanguage: string | undefined;
+        let ocrScript: string | undefined;
+
+        if (classification.type === 'MIXED') {
+            const lowTextPages = findLowTextPages(classification.pageTextLengths, config);
+            console.log(`[PDFPipeline] MIXED: ${lowTextPages.length} low-text pages`);
+
+            if (lowTextPages.length > 0 && !config.ocrEnabled) {
+                ocrEstimate = estimateOCR(lowTextPages.length, config);
+            } else if (lowTextPages.length > config.maxPagesScannedSync) {
+                userMessage = USER_MESSAGES.MIXED_TOO_MANY_OCR_PAGES;
+            } else if (lowTextPages.length > 0) {
+                const hybrid = await runHybridOCR(buffer, result.pages, lowTextPages, config, onProgress);
+                if (hybrid) {
+                    result.pages = hybrid.pages;
+                    result.text = hybrid.pages.map(p => p.text).join('\n').trim();
+                    source = hybrid.ocrPagesUsed > 0 ? 'hybrid' : 'pdf2json';
+                    userMessage = USER_MESSAGES.MIXED_HYBRID;
+                    extractionStatus = 'COMPLETE';
+                    if (hybrid.ocrPagesUsed > 0) {
+                        ocrLanguage = hybrid.language;
+                        ocrScript = hybrid.script;
+                    }
+                }
+            }
+        }
+
         if (!result.text || result.text.trim().length < 10) {
             console.log(`[PDFPipeline] EMPTY - no meaningful text extracted`);
             return {
                 success: false,
                 text: '',
+                pages: [],
                 pageCount: classification.pageCount,
                 source: 'pdf2json',
                 classification: classification.type,
@@ -693,14 +1176,16 @@ export async function extractPDFText(
         return {
             success: true,
             text: result.text,
+            pages: result.pages,
             pageCount: classification.pageCount,
-            source: 'pdf2json',
+            source,
             classification: classification.type,
             processingTimeMs,
-            userMessage: classification.type === 'MIXED'
-                ? USER_MESSAGES.MIXED_PARTIAL
-                : USER_MESSAGES.TEXT_BASED_SUCCESS,
-            extractionStatus: classification.type === 'MIXED' ? 'PARTIAL' : 'COMPLETE',
+            userMessage,
+            ocrEstimate,
+            extractionStatus,
+            ocrLanguage,
+            ocrScript,
         };
 
     } catch (error) {
@@ -723,6 +1208,7 @@ export async function extractPDFText(
         return {
             success: false,
             text: '',
+            pages: [],
             pageCount: 0,
             source: 'pdf2json',
             classification: 'CORRUPTED',
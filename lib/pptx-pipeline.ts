@@ -0,0 +1,127 @@
+/**
+ * PPTX Pipeline
+ *
+ * Slide deck ingestion:
+ * - Slides in presentation order (ppt/presentation.xml slide list)
+ * - One "page" per slide: title, text boxes and tables, then its speaker notes
+ * - Slide number and title recorded in page metadata (citations read "slide 4: Roadmap")
+ * - Slide number / date / footer placeholders are layout chrome and skipped
+ */
+
+import type { HTMLElement } from 'node-html-parser';
+import { openPackage, readRelationships, paragraphText, OoxmlPackage } from './ooxml';
+import type { ExtractedPage } from './pdf-pipeline';
+
+export interface PptxExtractionResult {
+    pages: ExtractedPage[];     // Slides with text or notes, numbered as in the deck
+    slideCount: number;
+}
+
+const TITLE_PLACEHOLDERS = new Set(['title', 'ctrTitle']);
+const CHROME_PLACEHOLDERS = new Set(['sldNum', 'dt', 'ftr', 'sldImg', 'hdr']);
+
+// ============================================================================
+// Slide Content
+// ============================================================================
+
+function placeholderType(shape: HTMLElement): string | undefined {
+    const placeholder = shape.getElementsByTagName('p:ph')[0];
+    if (!placeholder) return undefined;
+    return placeholder.getAttribute('type') || 'body';
+}
+
+function tableToMarkdown(table: HTMLElement): string {
+    const rows = table.getElementsByTagName('a:tr').map(row =>
+        row.getElementsByTagName('a:tc').map(cell =>
+            paragraphText(cell).join(' ').replace(/\|/g, '\\|')));
+    if (rows.length === 0) return '';
+
+    const width = Math.max(...rows.map(r => r.length));
+    const toRow = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] || '').join(' | ')} |`;
+    return [toRow(rows[0]), toRow(Array(width).fill('---')), ...rows.slice(1).map(toRow)].join('\n');
+}
+
+/**
+ * Title and body text of a slide (or of a notes page)
+ */
+function readShapes(part: HTMLElement): { title?: string; body: string[] } {
+    let title: string | undefined;
+    const body: string[] = [];
+
+    for (const shape of part.getElementsByTagName('p:sp')) {
+        const type = placeholderType(shape);
+        if (type && CHROME_PLACEHOLDERS.has(type)) continue;
+
+        const lines = paragraphText(shape);
+        if (lines.length === 0) continue;
+
+        if (type && TITLE_PLACEHOLDERS.has(type) && !title) {
+            title = lines.join(' ');
+        } else {
+            body.push(lines.join('\n'));
+        }
+    }
+
+    for (const table of part.getElementsByTagName('a:tbl')) {
+        const markdown = tableToMarkdown(table);
+        if (markdown) body.push(markdown);
+    }
+
+    return { title, body };
+}
+
+async function readNotes(pkg: OoxmlPackage, slidePath: string): Promise<string> {
+    const rels = await readRelationships(pkg, slidePath);
+    const notesRel = Array.from(rels.values()).find(rel => rel.type.endsWith('/notesSlide'));
+    const notes = notesRel ? await pkg.read(notesRel.target) : null;
+    return notes ? readShapes(notes).body.join('\n') : '';
+}
+
+// ============================================================================
+// Main Extraction
+// ============================================================================
+
+export async function extractPptx(buffer: Buffer): Promise<PptxExtractionResult> {
+    const startTime = Date.now();
+    const pkg = await openPackage(buffer, 'PowerPoint');
+
+    const presentationPath = 'ppt/presentation.xml';
+    const presentation = await pkg.read(presentationPath);
+    if (!presentation) {
+        throw new Error('This file is not a valid PowerPoint file (presentation part missing).');
+    }
+
+    const rels = await readRelationships(pkg, presentationPath);
+    const slidePaths = presentation.getElementsByTagName('p:sldId')
+        .map(slide => rels.get(slide.getAttribute('r:id') || '')?.target)
+        .filter((target): target is string => !!target);
+
+    const pages: ExtractedPage[] = [];
+
+    for (const [idx, slidePath] of slidePaths.entries()) {
+        const slide = await pkg.read(slidePath);
+        if (!slide) continue;
+
+        const slideNumber = idx + 1;
+        const { title, body } = readShapes(slide);
+        const notes = await readNotes(pkg, slidePath);
+        if (!title && body.length === 0 && !notes) continue;
+
+        const text = [
+            `## Slide ${slideNumber}${title ? `: ${title}` : ''}`,
+            ...body,
+            ...(notes ? [`Speaker notes:\n${notes}`] : []),
+        ].join('\n\n');
+
+        pages.push({
+            pageNumber: slideNumber,
+            text,
+            source: 'pptx',
+            metadata: { slide: slideNumber, ...(title ? { slideTitle: title } : {}) },
+        });
+    }
+
+    console.log(`[PptxPipeline] ${slidePaths.length} slides, ${pages.length} with text in ${Date.now() - startTime}ms`);
+
+    return { pages, slideCount: slidePaths.length };
+}
@@ -0,0 +1,41 @@
+/**
+ * Source Locations
+ *
+ * Where a retrieved chunk came from, for citations in the chat prompt and the
+ * chat's source list. Structured formats are located by their own structure
+ * rather than page: symbol (code), chapter (EPUB), slide (PPTX), sheet (XLSX),
+ * section heading (DOCX, HTML), row range (CSV), record path (JSON).
+ *
+ * No dependencies: imported by server actions and client components alike.
+ */
+
+type ChunkMetadata = Record<string, unknown> | null | undefined;
+
+/**
+ * e.g. `Chapter 7: Caching`, `slide 4: Roadmap`, `sheet "Sales" rows 2-40`;
+ * empty when the chunk carries no location
+ */
+export function sourceLocation(metadata: ChunkMetadata): string {
+    if (!metadata) return '';
+
+    if (metadata.symbol) {
+        const lines = metadata.startLine ? ` (lines ${metadata.startLine}-${metadata.endLine})` : '';
+        return `${metadata.filePath} > ${metadata.symbol}${lines}`;
+    }
+    // Front matter (Preface, Foreword) has a title but no chapter number
+    if (metadata.chapter || metadata.chapterTitle) {
+        if (!metadata.chapter) return `${metadata.chapterTitle}`;
+        return `Chapter ${metadata.chapter}${metadata.chapterTitle ? `: ${metadata.chapterTitle}` : ''}`;
+    }
+    if (metadata.slide) {
+        return `slide ${metadata.slide}${metadata.slideTitle ? `: ${metadata.slideTitle}` : ''}`;
+    }
+    if (metadata.sheet) {
+        return `sheet "${metadata.sheetName}"${metadata.rowStart ? ` rows ${metadata.rowStart}-${metadata.rowEnd}` : ''}`;
+    }
+    if (metadata.headingPath) return `section "${metadata.headingPath}"`;
+    if (metadata.rowStart) return `rows ${metadata.rowStart}-${metadata.rowEnd}`;
+    if (metadata.jsonPath) return `record ${metadata.jsonPath}`;
+    if (metadata.page) return `page ${metadata.page}`;
+    return '';
+}
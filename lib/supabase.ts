@@ -7,6 +7,15 @@ if (!supabaseUrl || !supabaseServiceKey) {
     throw new Error('Missing Supabase environment variables')
 }
 
+// Private bucket for server-side intermediates (extracted text awaiting indexing,
+// OCR job source files); read and written with the service role only
+export const PROCESSING_BUCKET = 'processing'
+
+// Private bucket for user files shown next to their documents (uploaded images,
+// OCR page previews); the browser only ever gets short-lived signed URLs to them
+export const DOCUMENT_FILES_BUCKET = 'document-files'
+export const SIGNED_URL_TTL_SECONDS = 10 * 60
+
 export const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
     auth: {
         persistSession: false,
@@ -0,0 +1,416 @@
+/**
+ * Tabular Query Engine
+ *
+ * Structured question answering over ingested CSV rows.
+ * Semantic search can't aggregate ("average order value by region"), so the
+ * model writes a restricted query instead of SQL:
+ * - filter → group → aggregate → order → limit, nothing else
+ * - Validated with zod and against the stored column schema
+ * - Executed in-process over rows loaded from `document_rows`
+ * - Rendered back as SQL-like text so answers are auditable
+ */
+
+import { z } from 'zod';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CsvRow, CsvSchema, CsvValue } from './csv-pipeline';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export interface TabularQueryConfig {
+    maxRowsLoaded: number;      // Rows scanned per query (larger tables are truncated)
+    maxResultRows: number;      // Rows returned to the model / UI
+    insertBatchSize: number;    // Rows per insert when storing
+}
+
+export const DEFAULT_TABULAR_CONFIG: TabularQueryConfig = {
+    maxRowsLoaded: 50_000,
+    maxResultRows: 100,
+    insertBatchSize: 500,
+};
+
+// Supabase caps a single select at 1000 rows
+const LOAD_PAGE_SIZE = 1000;
+
+// ============================================================================
+// Query Schema
+// ============================================================================
+
+const FilterSchema = z.object({
+    column: z.string(),
+    op: z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'in']),
+    value: z.union([
+        z.string(), z.number(), z.boolean(), z.null(),
+        z.array(z.union([z.string(), z.number(), z.boolean()])),
+    ]),
+});
+
+const AggregateSchema = z.object({
+    fn: z.enum(['count', 'sum', 'avg', 'min', 'max']),
+    column: z.string().optional(),     // Omitted for count(*)
+    as: z.string().optional(),
+});
+
+export const TabularQuerySchema = z.object({
+    documentId: z.string(),
+    select: z.array(z.string()).optional(),       // Plain row listing (no groupBy/aggregates)
+    filters: z.array(FilterSchema).optional(),
+    groupBy: z.array(z.string()).optional(),
+    aggregates: z.array(AggregateSchema).optional(),
+    orderBy: z.array(z.object({
+        column: z.string(),                       // Output column (group column or aggregate alias)
+        direction: z.enum(['asc', 'desc']).default('asc'),
+    })).optional(),
+    limit: z.number().int().positive().optional(),
+});
+
+export type TabularQuery = z.infer<typeof TabularQuerySchema>;
+type Aggregate = z.infer<typeof AggregateSchema>;
+
+export interface TabularResult {
+    columns: string[];
+    rows: CsvValue[][];
+    rowsScanned: number;
+    rowsMatched: number;
+    truncated: boolean;         // Table had more rows than maxRowsLoaded
+}
+
+/**
+ * A table the model may query: document identity plus its stored schema
+ */
+export interface TabularSource {
+    documentId: string;
+    name: string;
+    schema: CsvSchema;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function aggregateAlias(agg: Aggregate): string {
+    return agg.as || (agg.column ? `${agg.fn}_${agg.column}` : agg.fn);
+}
+
+/**
+ * Check a parsed query against the table schema.
+ * Returns a list of problems (empty when the query is valid).
+ */
+export function validateTabularQuery(query: TabularQuery, schema: CsvSchema): string[] {
+    const known = new Set(schema.columns.map(c => c.name));
+    const numeric = new Set(schema.columns.filter(c => c.type === 'integer' || c.type === 'number').map(c => c.name));
+    const errors: string[] = [];
+
+    const checkColumn = (column: string, where: string) => {
+        if (!known.has(column)) errors.push(`Unknown column "${column}" in ${where}`);
+    };
+
+    query.select?.forEach(c => checkColumn(c, 'select'));
+    query.filters?.forEach(f => checkColumn(f.column, 'filters'));
+    query.groupBy?.forEach(c => checkColumn(c, 'groupBy'));
+
+    for (const agg of query.aggregates || []) {
+        if (!agg.column) {
+            if (agg.fn !== 'count') errors.push(`${agg.fn} needs a column`);
+            continue;
+        }
+        checkColumn(agg.column, 'aggregates');
+        if ((agg.fn === 'sum' || agg.fn === 'avg') && known.has(agg.column) && !numeric.has(agg.column)) {
+            errors.push(`${agg.fn} needs a numeric column, "${agg.column}" is not numeric`);
+        }
+    }
+
+    const grouped = (query.groupBy?.length || 0) > 0 || (query.aggregates?.length || 0) > 0;
+    const outputColumns = new Set(grouped
+        ? [...(query.groupBy || []), ...(query.aggregates || []).map(aggregateAlias)]
+        : query.select?.length ? query.select : [...known]);
+
+    query.orderBy?.forEach(o => {
+        if (!outputColumns.has(o.column)) errors.push(`Cannot order by "${o.column}": not an output column`);
+    });
+
+    return errors;
+}
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+function compareValues(a: CsvValue, b: CsvValue): number {
+    if (a === b) return 0;
+    if (a === null) return 1;       // Nulls last
+    if (b === null) return -1;
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
+
+function matchesFilter(row: CsvRow, filter: z.infer<typeof FilterSchema>): boolean {
+    const actual = row[filter.column] ?? null;
+    const expected = filter.value;
+
+    // Compare numerically when the stored value is a number
+    const coerce = (v: CsvValue): CsvValue =>
+        typeof actual === 'number' && typeof v === 'string' && v.trim() !== '' && !isNaN(Number(v)) ? Number(v) : v;
+
+    const equals = (v: CsvValue) => {
+        const c = coerce(v);
+        return typeof actual === 'string' && typeof c === 'string'
+            ? actual.toLowerCase() === c.toLowerCase()
+            : actual === c;
+    };
+
+    switch (filter.op) {
+        case 'eq':
+            return Array.isArray(expected) ? false : equals(expected);
+        case 'neq':
+            return Array.isArray(expected) ? true : !equals(expected);
+        case 'in':
+            return (Array.isArray(expected) ? expected : [expected]).some(equals);
+        case 'contains':
+            return actual !== null && !Array.isArray(expected) && expected !== null
+                && String(actual).toLowerCase().includes(String(expected).toLowerCase());
+        default: {
+            if (actual === null || Array.isArray(expected) || expected === null) return false;
+            const cmp = compareValues(actual, coerce(expected));
+            return filter.op === 'gt' ? cmp > 0
+                : filter.op === 'gte' ? cmp >= 0
+                    : filter.op === 'lt' ? cmp < 0
+                        : cmp <= 0;
+        }
+    }
+}
+
+function computeAggregate(rows: CsvRow[], agg: Aggregate): CsvValue {
+    if (!agg.column) return rows.length;
+
+    const values = rows.map(r => r[agg.column!] ?? null).filter((v): v is Exclude<CsvValue, null> => v !== null);
+
+    switch (agg.fn) {
+        case 'count':
+            return values.length;
+        case 'sum':
+        case 'avg': {
+            const nums = values.filter((v): v is number => typeof v === 'number');
+            if (nums.length === 0) return null;
+            const sum = nums.reduce((a, b) => a + b, 0);
+            return Math.round((agg.fn === 'sum' ? sum : sum / nums.length) * 10_000) / 10_000;
+        }
+        case 'min':
+        case 'max': {
+            if (values.length === 0) return null;
+            const sorted = [...values].sort(compareValues);
+            return agg.fn === 'min' ? sorted[0] : sorted[sorted.length - 1];
+        }
+    }
+}
+
+/**
+ * Run a validated query over in-memory rows
+ */
+export function runTabularQuery(
+    rows: CsvRow[],
+    query: TabularQuery,
+    schema: CsvSchema,
+    config: TabularQueryConfig = DEFAULT_TABULAR_CONFIG
+): TabularResult {
+    const matched = rows.filter(row => (query.filters || []).every(f => matchesFilter(row, f)));
+    const groupBy = query.groupBy || [];
+    const aggregates = query.aggregates || [];
+
+    let columns: string[];
+    let output: CsvValue[][];
+
+    if (groupBy.length > 0 || aggregates.length > 0) {
+        // Group rows by the JSON-encoded key tuple (insertion order kept)
+        const groups = new Map<string, CsvRow[]>();
+        for (const row of matched) {
+            const key = JSON.stringify(groupBy.map(c => row[c] ?? null));
+            const group = groups.get(key);
+            if (group) group.push(row);
+            else groups.set(key, [row]);
+        }
+        // A pure aggregate over zero matches still yields one row (e.g. count = 0)
+        if (groups.size === 0 && groupBy.length === 0) groups.set('[]', []);
+
+        columns = [...groupBy, ...aggregates.map(aggregateAlias)];
+        output = [...groups.entries()].map(([key, groupRows]) => [
+            ...(JSON.parse(key) as CsvValue[]),
+            ...aggregates.map(agg => computeAggregate(groupRows, agg)),
+        ]);
+    } else {
+        columns = query.select?.length ? query.select : schema.columns.map(c => c.name);
+        output = matched.map(row => columns.map(c => row[c] ?? null));
+    }
+
+    for (const order of [...(query.orderBy || [])].reverse()) {
+        // Stable sorts applied last-key-first give a multi-key ordering
+        const idx = columns.indexOf(order.column);
+        if (idx === -1) continue;
+        const sign = order.direction === 'desc' ? -1 : 1;
+        output.sort((a, b) => (a[idx] === null || b[idx] === null)
+            ? compareValues(a[idx], b[idx])     // Nulls last in both directions
+            : sign * compareValues(a[idx], b[idx]));
+    }
+
+    const limit = Math.min(query.limit || config.maxResultRows, config.maxResultRows);
+
+    return {
+        columns,
+        rows: output.slice(0, limit),
+        rowsScanned: rows.length,
+        rowsMatched: matched.length,
+        truncated: rows.length >= config.maxRowsLoaded,
+    };
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+function formatLiteral(value: CsvValue | CsvValue[]): string {
+    if (Array.isArray(value)) return `(${value.map(formatLiteral).join(', ')})`;
+    if (value === null) return 'NULL';
+    return typeof value === 'string' ? `'${value.replace(/'/g, "''")}'` : String(value);
+}
+
+function quoteIdent(name: string): string {
+    return `"${name.replace(/"/g, '""')}"`;
+}
+
+const FILTER_OPERATORS: Record<string, string> = {
+    eq: '=', neq: '<>', gt: '>', gte: '>=', lt: '<', lte: '<=', contains: 'CONTAINS', in: 'IN',
+};
+
+/**
+ * Render a query as SQL-like text for display (never executed as SQL)
+ */
+export function formatTabularQuery(query: TabularQuery, tableName: string, config: TabularQueryConfig = DEFAULT_TABULAR_CONFIG): string {
+    const grouped = (query.groupBy?.length || 0) > 0 || (query.aggregates?.length || 0) > 0;
+    const selectList = grouped
+        ? [
+            ...(query.groupBy || []).map(quoteIdent),
+            ...(query.aggregates || []).map(agg =>
+                `${agg.fn.toUpperCase()}(${agg.column ? quoteIdent(agg.column) : '*'}) AS ${quoteIdent(aggregateAlias(agg))}`),
+        ]
+        : query.select?.length ? query.select.map(quoteIdent) : ['*'];
+
+    const lines = [`SELECT ${selectList.join(', ')}`, `FROM ${quoteIdent(tableName)}`];
+
+    if (query.filters?.length) {
+        lines.push(`WHERE ${query.filters
+            .map(f => `${quoteIdent(f.column)} ${FILTER_OPERATORS[f.op]} ${formatLiteral(f.value)}`)
+            .join(' AND ')}`);
+    }
+    if (query.groupBy?.length) {
+        lines.push(`GROUP BY ${query.groupBy.map(quoteIdent).join(', ')}`);
+    }
+    if (query.orderBy?.length) {
+        lines.push(`ORDER BY ${query.orderBy.map(o => `${quoteIdent(o.column)} ${o.direction.toUpperCase()}`).join(', ')}`);
+    }
+    lines.push(`LIMIT ${Math.min(query.limit || config.maxResultRows, config.maxResultRows)}`);
+
+    return lines.join('\n');
+}
+
+/**
+ * Render a result as a Markdown table (model context)
+ */
+export function resultToMarkdown(result: TabularResult): string {
+    const cell = (v: CsvValue) => (v === null ? '' : String(v).replace(/\|/g, '\\|'));
+
+    return [
+        `| ${result.columns.map(c => cell(c)).join(' | ')} |`,
+        `| ${result.columns.map(() => '---').join(' | ')} |`,
+        ...result.rows.map(r => `| ${r.map(cell).join(' | ')} |`),
+    ].join('\n');
+}
+
+/**
+ * Instructions for the model: the query format plus the tables it may query
+ */
+export function buildTabularQueryPrompt(sources: TabularSource[]): string {
+    const tables = sources.map(s =>
+        `- documentId: "${s.documentId}", name: "${s.name}", rows: ${s.schema.rowCount}\n  columns: ${s.schema.columns.map(c => `${c.name} (${c.type})`).join(', ')}`
+    ).join('\n');
+
+    return `You translate questions about tabular data into a restricted JSON query.
+
+TABLES:
+${tables}
+
+QUERY FORMAT:
+{
+  "documentId": "<one of the documentIds above>",
+  "select": ["col", ...],                                  // optional, plain row listing only
+  "filters": [{ "column": "col", "op": "eq|neq|gt|gte|lt|lte|contains|in", "value": <value or array for in> }],
+  "groupBy": ["col", ...],
+  "aggregates": [{ "fn": "count|sum|avg|min|max", "column": "col", "as": "alias" }],   // omit column for count of rows
+  "orderBy": [{ "column": "<groupBy column or aggregate alias>", "direction": "asc|desc" }],
+  "limit": 20
+}
+
+RULES:
+- Use only the columns listed for the chosen table, spelled exactly.
+- sum/avg only on integer or number columns.
+- Respond with JSON only: {"query": <query>} or {"query": null} if the question is not answered by filtering, grouping or aggregating these tables.`;
+}
+
+// ============================================================================
+// Row Storage
+// ============================================================================
+
+/**
+ * Store a document's rows in `document_rows` (row_index is 1-based, header excluded)
+ */
+export async function storeDocumentRows(
+    client: SupabaseClient,
+    documentId: string,
+    rows: CsvRow[],
+    config: TabularQueryConfig = DEFAULT_TABULAR_CONFIG
+): Promise<void> {
+    const limited = rows.slice(0, config.maxRowsLoaded);
+
+    for (let i = 0; i < limited.length; i += config.insertBatchSize) {
+        const { error } = await client.from('document_rows').insert(
+            limited.slice(i, i + config.insertBatchSize).map((data, idx) => ({
+                document_id: documentId,
+                row_index: i + idx + 1,
+                data,
+            }))
+        );
+
+        if (error) {
+            throw new Error(`Database Error: ${error.message}`);
+        }
+    }
+}
+
+/**
+ * Load a document's rows in file order (up to maxRowsLoaded)
+ */
+export async function loadDocumentRows(
+    client: SupabaseClient,
+    documentId: string,
+    config: TabularQueryConfig = DEFAULT_TABULAR_CONFIG
+): Promise<CsvRow[]> {
+    const rows: CsvRow[] = [];
+
+    while (rows.length < config.maxRowsLoaded) {
+        const { data, error } = await client
+            .from('document_rows')
+            .select('data')
+            .eq('document_id', documentId)
+            .order('row_index', { ascending: true })
+            .range(rows.length, Math.min(rows.length + LOAD_PAGE_SIZE, config.maxRowsLoaded) - 1);
+
+        if (error) {
+            throw new Error(`Database Error: ${error.message}`);
+        }
+
+        rows.push(...(data || []).map(r => r.data as CsvRow));
+        if (!data || data.length < LOAD_PAGE_SIZE) break;
+    }
+
+    return rows;
+}
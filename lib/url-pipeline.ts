@@ -0,0 +1,295 @@
+/**
+ * URL Pipeline
+ *
+ * Fetches a web page or file for ingestion, treating the URL as untrusted input:
+ * - http(s) only; redirects followed manually (bounded) and re-checked at every hop
+ * - Private-network guard: loopback, RFC 1918, link-local (cloud metadata),
+ *   CGNAT, ULA and multicast addresses are refused. The check runs on the
+ *   address actually connected to (custom DNS lookup), so a hostname that
+ *   re-resolves to an internal address between check and connect is refused too
+ * - Response size limited while streaming (also after decompression)
+ * - One deadline for the whole fetch, redirects included
+ *
+ * The body then goes through the extractor registry like an upload, named
+ * after the URL and typed by the response Content-Type.
+ */
+
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import path from 'path';
+import zlib from 'zlib';
+import type { Readable } from 'stream';
+import { DEFAULT_CONFIG } from './pdf-pipeline';
+import type { ExtractorInput } from './extractors';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export interface UrlFetchConfig {
+    maxSizeBytes: number;       // Response body (decompressed)
+    timeoutMs: number;          // Whole fetch, redirects included
+    maxRedirects: number;
+    allowPrivateNetwork: boolean; // Local fixture servers / self-hosted intranets only
+}
+
+export const DEFAULT_URL_FETCH_CONFIG: UrlFetchConfig = {
+    maxSizeBytes: DEFAULT_CONFIG.maxSizeBytes,   // Same as a single upload (50MB)
+    timeoutMs: 30_000,
+    maxRedirects: 5,
+    allowPrivateNetwork: process.env.URL_INGEST_ALLOW_PRIVATE_NETWORK === 'true',
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FetchedUrl extends ExtractorInput {
+    success: boolean;
+    url: string;                // Final URL after redirects
+    buffer: Buffer;             // Empty on failure
+    userMessage: string;
+    failureReason?: 'INVALID_URL' | 'PRIVATE_ADDRESS' | 'TOO_LARGE' | 'TIMEOUT' | 'TOO_MANY_REDIRECTS' | 'HTTP_ERROR' | 'NETWORK';
+}
+
+type FailureReason = NonNullable<FetchedUrl['failureReason']>;
+
+const USER_MESSAGES = {
+    INVALID_URL: 'Enter a full http:// or https:// URL.',
+    PRIVATE_ADDRESS: 'This URL points to a private or local network address and cannot be fetched.',
+    TOO_LARGE: (max: number) => `The response exceeds the maximum allowed size (${max / 1024 / 1024}MB).`,
+    TIMEOUT: (ms: number) => `The server did not respond within ${ms / 1000}s.`,
+    TOO_MANY_REDIRECTS: (max: number) => `The URL redirected more than ${max} times.`,
+    HTTP_ERROR: (status: number) => `The server responded with HTTP ${status}.`,
+    NETWORK: (detail: string) => `The URL could not be fetched (${detail}).`,
+};
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Not routable on the public internet (IANA special-purpose registries)
+const PRIVATE_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+    ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+    PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64],
+    ['2001:db8::', 32], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+    PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+// ============================================================================
+// Private-Network Guard
+// ============================================================================
+
+export function isPrivateAddress(address: string): boolean {
+    const family = net.isIP(address);
+    if (family === 0) return true; // Not an address - refuse rather than guess
+    // BlockList checks IPv4-mapped IPv6 (::ffff:10.0.0.1) against the IPv4 ranges
+    return PRIVATE_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+class FetchFailure extends Error {
+    constructor(public reason: FailureReason, message: string) {
+        super(message);
+    }
+}
+
+/**
+ * dns.lookup that refuses private addresses. Used as the socket's lookup, so
+ * the address checked is the address connected to.
+ */
+function guardedLookup(hostname: string, options: dns.LookupOptions, callback: (...args: unknown[]) => void): void {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) return callback(error);
+
+        if (addresses.length === 0 || addresses.some(a => isPrivateAddress(a.address))) {
+            return callback(new FetchFailure('PRIVATE_ADDRESS', USER_MESSAGES.PRIVATE_ADDRESS));
+        }
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+}
+
+// ============================================================================
+// Request
+// ============================================================================
+
+interface RawResponse {
+    status: number;
+    headers: http.IncomingHttpHeaders;
+    body: Buffer;
+}
+
+function decodeBody(response: http.IncomingMessage): Readable {
+    switch ((response.headers['content-encoding'] || '').toLowerCase()) {
+        case 'gzip':
+        case 'x-gzip':
+            return response.pipe(zlib.createGunzip());
+        case 'deflate':
+            return response.pipe(zlib.createInflate());
+        case 'br':
+            return response.pipe(zlib.createBrotliDecompress());
+        default:
+            return response;
+    }
+}
+
+/**
+ * One request, no redirect following. Redirect bodies are not read.
+ */
+function requestOnce(url: URL, config: UrlFetchConfig, deadline: number): Promise<RawResponse> {
+    return new Promise((resolve, reject) => {
+        const client = url.protocol === 'https:' ? https : http;
+        const request = client.get(url, {
+            headers: {
+                'User-Agent': 'RAG-Sandbox (URL ingest)',
+                'Accept': '*/*',
+                'Accept-Encoding': 'gzip, deflate, br',
+            },
+            // Fresh socket per request: a pooled one could skip the guarded lookup
+            agent: false,
+            ...(config.allowPrivateNetwork ? {} : { lookup: guardedLookup as net.LookupFunction }),
+        });
+
+        const timer = setTimeout(() => {
+            request.destroy(new FetchFailure('TIMEOUT', USER_MESSAGES.TIMEOUT(config.timeoutMs)));
+        }, Math.max(0, deadline - Date.now()));
+        const fail = (error: Error) => {
+            clearTimeout(timer);
+            request.destroy();
+            reject(error);
+        };
+
+        request.on('error', fail);
+        request.on('response', (response) => {
+            const status = response.statusCode || 0;
+            if (REDIRECT_STATUSES.has(status) || status >= 400) {
+                response.resume();
+                clearTimeout(timer);
+                return resolve({ status, headers: response.headers, body: Buffer.alloc(0) });
+            }
+
+            const declared = Number(response.headers['content-length']);
+            if (declared > config.maxSizeBytes) {
+                return fail(new FetchFailure('TOO_LARGE', USER_MESSAGES.TOO_LARGE(config.maxSizeBytes)));
+            }
+
+            const chunks: Buffer[] = [];
+            let size = 0;
+            const body = decodeBody(response);
+            body.on('data', (chunk: Buffer) => {
+                size += chunk.length;
+                if (size > config.maxSizeBytes) {
+                    body.destroy();
+                    return fail(new FetchFailure('TOO_LARGE', USER_MESSAGES.TOO_LARGE(config.maxSizeBytes)));
+                }
+                chunks.push(chunk);
+            });
+            body.on('error', fail);
+            body.on('end', () => {
+                clearTimeout(timer);
+                resolve({ status, headers: response.headers, body: Buffer.concat(chunks) });
+            });
+        });
+    });
+}
+
+// ============================================================================
+// Naming
+// ============================================================================
+
+/**
+ * File URLs keep their file name (report.pdf); pages are named by host and path
+ */
+function documentName(url: URL, type: string): string {
+    let segment = path.posix.basename(url.pathname);
+    try {
+        segment = decodeURIComponent(segment);
+    } catch {
+        // Keep malformed escapes as written
+    }
+    if (segment && path.posix.extname(segment) && type !== 'text/html') return segment;
+    return `${url.hostname}${url.pathname.replace(/\/+$/, '')}`;
+}
+
+// ============================================================================
+// Main Fetch
+// ============================================================================
+
+export async function fetchUrl(rawUrl: string, config: UrlFetchConfig = DEFAULT_URL_FETCH_CONFIG): Promise<FetchedUrl> {
+    const startTime = Date.now();
+    const deadline = startTime + config.timeoutMs;
+    let url: URL;
+
+    const fail = (reason: FailureReason, userMessage: string): FetchedUrl => {
+        console.warn(`[UrlPipeline] ${url?.href || rawUrl}: ${reason}`);
+        return { success: false, url: url?.href || rawUrl, name: '', type: '', buffer: Buffer.alloc(0), userMessage, failureReason: reason };
+    };
+
+    try {
+        url = new URL(rawUrl.trim());
+    } catch {
+        return fail('INVALID_URL', USER_MESSAGES.INVALID_URL);
+    }
+
+    for (let redirects = 0; ; redirects++) {
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+            return fail('INVALID_URL', USER_MESSAGES.INVALID_URL);
+        }
+
+        // Literal IPs never go through the DNS lookup
+        const host = url.hostname.replace(/^\[|\]$/g, '');
+        if (!config.allowPrivateNetwork && net.isIP(host) && isPrivateAddress(host)) {
+            return fail('PRIVATE_ADDRESS', USER_MESSAGES.PRIVATE_ADDRESS);
+        }
+
+        let response: RawResponse;
+        try {
+            response = await requestOnce(url, config, deadline);
+        } catch (error) {
+            if (error instanceof FetchFailure) return fail(error.reason, error.message);
+            const err = error as NodeJS.ErrnoException;
+            return fail('NETWORK', USER_MESSAGES.NETWORK(err.code || err.message));
+        }
+
+        const location = response.headers.location;
+        if (REDIRECT_STATUSES.has(response.status) && location) {
+            if (redirects >= config.maxRedirects) {
+                return fail('TOO_MANY_REDIRECTS', USER_MESSAGES.TOO_MANY_REDIRECTS(config.maxRedirects));
+            }
+            try {
+                url = new URL(location, url);
+            } catch {
+                return fail('INVALID_URL', USER_MESSAGES.INVALID_URL);
+            }
+            continue;
+        }
+
+        if (response.status < 200 || response.status >= 300) {
+            return fail('HTTP_ERROR', USER_MESSAGES.HTTP_ERROR(response.status));
+        }
+
+        // Generic binary types say nothing - leave matching to the file extension
+        const mimeType = (response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+        const type = mimeType === 'application/octet-stream' ? '' : mimeType;
+        const name = documentName(url, type);
+
+        console.log(`[UrlPipeline] ${url.href} → ${name} (${type || 'untyped'}, ${(response.body.length / 1024).toFixed(0)}KB) in ${Date.now() - startTime}ms`);
+
+        return {
+            success: true,
+            url: url.href,
+            name,
+            type,
+            buffer: response.body,
+            userMessage: 'Fetched successfully',
+        };
+    }
+}
@@ -12,15 +12,24 @@
  */
 
 import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
+import type { ExtractionSource, OCRWord } from './pdf-pipeline';
+import { splitMarkdownSections } from './markdown';
+import { getLanguage, splitCodeUnits, CodeUnit } from './code-pipeline';
 
 // ============================================================================
 // Configuration
 // ============================================================================
 
+// 'recursive': generic character splitter (tables kept by row)
+// 'markdown': heading sections, fences/tables intact, breadcrumb prefix
+// 'code': declaration units (function/class/method), path + symbol prefix
+export type ChunkingStrategy = 'recursive' | 'markdown' | 'code';
+
 export interface VectorizationConfig {
     chunkSize: number;           // Target chunk size in characters
     chunkOverlap: number;        // Overlap between chunks
     batchSize: number;           // Chunks to embed before yielding
+    chunkingStrategy: ChunkingStrategy;
 
     // Budget controls (Constraint 6)
     maxChunksPerDocument: number;    // Cap per document
@@ -32,6 +41,7 @@ export const DEFAULT_VECTORIZATION_CONFIG: VectorizationConfig = {
     chunkSize: 500,              // ~100-125 tokens
     chunkOverlap: 50,            // Small overlap for context
     batchSize: 10,               // Embed 10 chunks at a time
+    chunkingStrategy: 'recursive',
 
     // Budget controls
     maxChunksPerDocument: 500,   // Max 500 chunks per doc
@@ -46,16 +56,21 @@ export const DEFAULT_VECTORIZATION_CONFIG: VectorizationConfig = {
 export interface PageText {
     pageNumber: number;
     text: string;
-    source: 'pdf2json' | 'ocr' | 'hybrid';
+    source: ExtractionSource;
+    metadata?: Record<string, unknown>;  // Page-level metadata (e.g. heading path)
+    confidence?: number;                 // OCR pages: mean word confidence (0-100)
+    words?: OCRWord[];                   // OCR pages: word confidences for per-chunk scores
 }
 
 export interface ChunkRecord {
+    chunkId?: string;       // Deterministic ID (see generateChunkId), set by vectorizeIncrementally
     documentId: string;
     documentName?: string;  // Include document name for searchability
     page: number;
     chunkIndex: number;
     content: string;
-    source: 'pdf2json' | 'ocr' | 'hybrid';
+    source: ExtractionSource;
+    metadata?: Record<string, unknown>;  // Extra chunk metadata (e.g. table flag)
     embedding?: number[];
 }
 
@@ -72,11 +87,24 @@ export interface VectorizationResult {
     documentId: string;
     totalPages: number;
     totalChunks: number;
+    pagesProcessed?: number;
+    lastCompletedPage?: number;     // Last page whose chunks were all stored (resume point)
+    truncated?: boolean;            // Stopped at maxChunksPerDocument
+    failedChunks?: number;          // Chunks that couldn't be embedded or stored
     processingTimeMs: number;
     userMessage: string;
     failureReason?: string;
 }
 
+/**
+ * Resuming a document whose indexing stopped part-way
+ */
+export interface ResumeOptions {
+    afterPage?: number;         // Skip pages up to and including this one (already indexed)
+    chunksStored?: number;      // Chunks already stored, counted against maxChunksPerDocument
+    onPageComplete?: (pageNumber: number, progress: VectorizationProgress) => Promise<void>;  // Checkpoint once every chunk of a page is stored
+}
+
 // ============================================================================
 // Text Normalization
 // ============================================================================
@@ -96,39 +124,393 @@ function normalizeText(text: string): string {
         .trim();
 }
 
+// ============================================================================
+// Markdown Table Blocks
+// ============================================================================
+
+const TABLE_ROW_PATTERN = /^\|.*\|$/;
+const TABLE_SEPARATOR_PATTERN = /^\|(\s*:?-{3,}:?\s*\|)+$/;
+
+interface TextBlock {
+    kind: 'text' | 'table' | 'code';
+    content: string;
+}
+
+/**
+ * Split page text into prose and Markdown table blocks
+ * A table is a header row, a separator row and at least one body row
+ */
+function splitTableBlocks(text: string): TextBlock[] {
+    const lines = text.split('\n');
+    const blocks: TextBlock[] = [];
+    let prose: string[] = [];
+
+    const flushProse = () => {
+        if (prose.length > 0) blocks.push({ kind: 'text', content: prose.join('\n') });
+        prose = [];
+    };
+
+    let i = 0;
+    while (i < lines.length) {
+        if (TABLE_ROW_PATTERN.test(lines[i]) && TABLE_SEPARATOR_PATTERN.test(lines[i + 1] ?? '')) {
+            let end = i + 2;
+            while (end < lines.length && TABLE_ROW_PATTERN.test(lines[end])) end++;
+
+            if (end > i + 2) {
+                flushProse();
+                blocks.push({ kind: 'table', content: lines.slice(i, end).join('\n') });
+                i = end;
+                continue;
+            }
+        }
+        prose.push(lines[i]);
+        i++;
+    }
+    flushProse();
+
+    return blocks;
+}
+
+/**
+ * Chunk a Markdown table by whole rows, repeating the header in every chunk
+ */
+function chunkTable(table: string, chunkSize: number): string[] {
+    const [header, separator, ...rows] = table.split('\n');
+    const head = `${header}\n${separator}`;
+    const chunks: string[] = [];
+    let current: string[] = [];
+    let currentLength = head.length;
+
+    for (const row of rows) {
+        if (current.length > 0 && currentLength + row.length + 1 > chunkSize) {
+            chunks.push([head, ...current].join('\n'));
+            current = [];
+            currentLength = head.length;
+        }
+        current.push(row);
+        currentLength += row.length + 1;
+    }
+
+    if (current.length > 0) {
+        chunks.push([head, ...current].join('\n'));
+    }
+
+    return chunks;
+}
+
+// ============================================================================
+// Markdown Chunking
+// ============================================================================
+
+const FENCE_OPEN_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+const FENCE_CLOSE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*$/;
+const HEADING_LINE_PATTERN = /^#{1,6}\s/;
+
+/**
+ * Split a Markdown section into fenced code, table and paragraph blocks.
+ * Fences run to their matching closing fence (or the end of the section).
+ */
+function splitMarkdownBlocks(text: string): TextBlock[] {
+    const lines = text.split('\n');
+    const blocks: TextBlock[] = [];
+    let prose: string[] = [];
+
+    const flushProse = () => {
+        for (const block of splitTableBlocks(prose.join('\n'))) {
+            if (block.kind === 'table') {
+                blocks.push(block);
+                continue;
+            }
+            block.content.split(/\n\s*\n/)
+                .map(p => p.trim())
+                .filter(Boolean)
+                .forEach(content => blocks.push({ kind: 'text', content }));
+        }
+        prose = [];
+    };
+
+    let i = 0;
+    while (i < lines.length) {
+        const open = lines[i].match(FENCE_OPEN_PATTERN);
+        if (!open) {
+            prose.push(lines[i]);
+            i++;
+            continue;
+        }
+
+        flushProse();
+        // Closing fence: same character, at least as long, nothing after it
+        const fence = open[1];
+        const isClosing = (line: string) => {
+            const close = line.match(FENCE_CLOSE_PATTERN);
+            return !!close && close[1][0] === fence[0] && close[1].length >= fence.length;
+        };
+
+        let end = i + 1;
+        while (end < lines.length && !isClosing(lines[end])) end++;
+        blocks.push({ kind: 'code', content: lines.slice(i, end + 1).join('\n') });
+        i = end + 1;
+    }
+    flushProse();
+
+    return blocks;
+}
+
+/**
+ * Chunk Markdown by heading section
+ * - Never crosses a heading boundary
+ * - Fenced code blocks are never split (an oversized fence becomes its own chunk)
+ * - Tables split only between rows, header repeated
+ * - Paragraphs packed up to chunkSize; oversized ones go through the character splitter
+ * - Every chunk is prefixed with its heading breadcrumb ("Guide > Setup > Linux")
+ */
+async function chunkMarkdown(
+    text: string,
+    config: VectorizationConfig
+): Promise<{ content: string; metadata?: Record<string, unknown> }[]> {
+    const pieces: { content: string; metadata?: Record<string, unknown> }[] = [];
+
+    for (const section of splitMarkdownSections(text)) {
+        const breadcrumb = section.headingPath.join(' > ');
+        const prefix = breadcrumb ? `${breadcrumb}\n\n` : '';
+        const budget = Math.max(config.chunkSize - prefix.length, Math.floor(config.chunkSize / 2));
+        const metadata = breadcrumb ? { headingPath: breadcrumb } : undefined;
+        const splitter = new RecursiveCharacterTextSplitter({
+            chunkSize: budget,
+            chunkOverlap: Math.min(config.chunkOverlap, Math.floor(budget / 4)),
+        });
+
+        // The breadcrumb replaces the section's own heading line
+        const body = section.text
+            .split('\n')
+            .filter((line, idx) => !(idx === 0 && HEADING_LINE_PATTERN.test(line)))
+            .join('\n');
+
+        let packed: string[] = [];
+        let packedLength = 0;
+
+        const flushPacked = () => {
+            if (packed.length > 0) pieces.push({ content: prefix + packed.join('\n\n'), metadata });
+            packed = [];
+            packedLength = 0;
+        };
+
+        for (const block of splitMarkdownBlocks(body)) {
+            if (block.kind === 'code') {
+                if (packedLength + block.content.length + 2 > budget) flushPacked();
+                if (block.content.length > budget) {
+                    pieces.push({ content: prefix + block.content, metadata: { ...metadata, code: true } });
+                } else {
+                    packed.push(block.content);
+                    packedLength += block.content.length + 2;
+                }
+                continue;
+            }
+
+            if (block.kind === 'table') {
+                flushPacked();
+                chunkTable(block.content, budget)
+                    .forEach(content => pieces.push({ content: prefix + content, metadata: { ...metadata, table: true } }));
+                continue;
+            }
+
+            if (block.content.length > budget) {
+                flushPacked();
+                const docs = await splitter.splitText(block.content);
+                docs.forEach(content => pieces.push({ content: prefix + content, metadata }));
+                continue;
+            }
+
+            if (packedLength + block.content.length + 2 > budget) flushPacked();
+            packed.push(block.content);
+            packedLength += block.content.length + 2;
+        }
+        flushPacked();
+    }
+
+    return pieces;
+}
+
+// ============================================================================
+// Code Chunking
+// ============================================================================
+
+/**
+ * Chunk a source file by declaration units
+ * - Small neighbouring units are packed together up to chunkSize
+ * - Oversized units without nested declarations use the language's splitter
+ * - Every chunk is prefixed with "path > symbol" and records symbol + line range
+ * Page metadata must carry `language` (and `filePath`) from the code extractor.
+ */
+async function chunkCode(
+    pageText: PageText,
+    text: string,
+    config: VectorizationConfig
+): Promise<{ content: string; metadata?: Record<string, unknown> }[]> {
+    const language = getLanguage(String(pageText.metadata?.language || ''));
+    const filePath = String(pageText.metadata?.filePath || '');
+    if (!language) return chunkRecursive(text, config);
+
+    const pieces: { content: string; metadata?: Record<string, unknown> }[] = [];
+    const budget = Math.max(config.chunkSize - filePath.length - 40, Math.floor(config.chunkSize / 2));
+
+    const emit = (units: CodeUnit[], content: string) => {
+        const symbols = [...new Set(units.map(u => u.symbol).filter((s): s is string => !!s))];
+        const label = [filePath, symbols.join(', ')].filter(Boolean).join(' > ');
+        pieces.push({
+            content: label ? `${label}\n\n${content}` : content,
+            metadata: {
+                symbol: symbols.length > 0 ? symbols.join(', ') : undefined,
+                startLine: units[0].startLine,
+                endLine: units[units.length - 1].endLine,
+            },
+        });
+    };
+
+    let packed: CodeUnit[] = [];
+    const flushPacked = () => {
+        if (packed.length > 0) emit(packed, packed.map(u => u.text).join('\n'));
+        packed = [];
+    };
+
+    for (const unit of splitCodeUnits(text, language, budget)) {
+        if (unit.text.length > budget) {
+            flushPacked();
+            const splitter = language.splitterLanguage
+                ? RecursiveCharacterTextSplitter.fromLanguage(language.splitterLanguage, { chunkSize: budget, chunkOverlap: config.chunkOverlap })
+                : new RecursiveCharacterTextSplitter({ chunkSize: budget, chunkOverlap: config.chunkOverlap });
+            for (const part of await splitter.splitText(unit.text)) emit([unit], part);
+            continue;
+        }
+
+        const packedLength = packed.reduce((n, u) => n + u.text.length + 1, 0);
+        if (packedLength + unit.text.length > budget) flushPacked();
+        packed.push(unit);
+    }
+    flushPacked();
+
+    return pieces;
+}
+
 // ============================================================================
 // Per-Page Chunking
 // ============================================================================
 
 /**
  * Chunk a single page's text
+ * Markdown pages (chunkingStrategy 'markdown') are chunked by heading section,
+ * source files ('code') by declaration;
+ * otherwise Markdown tables are chunked by row (flagged `table` in metadata)
+ * and everything else goes through the recursive character splitter.
  * Returns chunks with page number and index metadata
  */
 async function chunkPage(
     pageText: PageText,
     config: VectorizationConfig
 ): Promise<ChunkRecord[]> {
-    const normalized = normalizeText(pageText.text);
+    // Markdown and code keep their indentation; only line endings are normalized
+    const normalized = config.chunkingStrategy === 'recursive'
+        ? normalizeText(pageText.text)
+        : pageText.text.replace(/\r\n/g, '\n').replace(/\s+$/, '');
 
     // Skip empty pages
     if (!normalized || normalized.length < 10) {
         return [];
     }
 
+    const pieces = config.chunkingStrategy === 'markdown'
+        ? await chunkMarkdown(normalized, config)
+        : config.chunkingStrategy === 'code'
+            ? await chunkCode(pageText, normalized, config)
+            : await chunkRecursive(normalized, config);
+
+    // OCR pages: score each chunk by the words it contains (falls back to the page mean)
+    let wordCursor = 0;
+    const scoreChunk = (content: string): Record<string, unknown> | undefined => {
+        if (pageText.confidence === undefined) return undefined;
+        const scored = pageText.words ? chunkConfidence(content, pageText.words, wordCursor) : null;
+        if (scored) wordCursor = scored.start + 1;
+        return {
+            pageConfidence: roundConfidence(pageText.confidence),
+            ocrConfidence: roundConfidence(scored ? scored.confidence : pageText.confidence),
+        };
+    };
+
+    return pieces.map((piece, idx) => {
+        const confidence = scoreChunk(piece.content);
+        return {
+            documentId: '',  // Will be set later
+            page: pageText.pageNumber,
+            chunkIndex: idx,
+            content: piece.content,
+            source: pageText.source,
+            metadata: pageText.metadata || piece.metadata || confidence
+                ? { ...pageText.metadata, ...piece.metadata, ...confidence }
+                : undefined,
+        };
+    });
+}
+
+// ============================================================================
+// OCR Confidence
+// ============================================================================
+
+const CONFIDENCE_ANCHOR_WORDS = 3;
+
+function roundConfidence(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+/**
+ * Mean confidence of the OCR words a chunk was cut from.
+ * Chunks are emitted in page order, so the chunk's first words are located
+ * in the page's word list at or after `from`; returns null if they can't be found.
+ */
+function chunkConfidence(
+    content: string,
+    words: OCRWord[],
+    from: number
+): { confidence: number; start: number } | null {
+    const tokens = content.split(/\s+/).filter(Boolean);
+    const anchor = tokens.slice(0, CONFIDENCE_ANCHOR_WORDS);
+    if (anchor.length === 0) return null;
+
+    for (let start = from; start + anchor.length <= words.length; start++) {
+        if (anchor.every((token, i) => words[start + i].text === token)) {
+            const span = words.slice(start, start + tokens.length);
+            const confidence = span.reduce((sum, w) => sum + w.confidence, 0) / span.length;
+            return { confidence, start };
+        }
+    }
+
+    return null;
+}
+
+async function chunkRecursive(
+    text: string,
+    config: VectorizationConfig
+): Promise<{ content: string; metadata?: Record<string, unknown> }[]> {
     const splitter = new RecursiveCharacterTextSplitter({
         chunkSize: config.chunkSize,
         chunkOverlap: config.chunkOverlap,
     });
 
-    const docs = await splitter.createDocuments([normalized]);
+    const pieces: { content: string; metadata?: Record<string, unknown> }[] = [];
+
+    for (const block of splitTableBlocks(text)) {
+        if (block.kind === 'table') {
+            chunkTable(block.content, config.chunkSize)
+                .forEach(content => pieces.push({ content, metadata: { table: true } }));
+            continue;
+        }
+
+        if (block.content.trim().length < 10) continue;
+
+        const docs = await splitter.createDocuments([block.content]);
+        docs.forEach(doc => pieces.push({ content: doc.pageContent }));
+    }
 
-    return docs.map((doc, idx) => ({
-        documentId: '',  // Will be set later
-        page: pageText.pageNumber,
-        chunkIndex: idx,
-        content: doc.pageContent,
-        source: pageText.source,
-    }));
+    return pieces;
 }
 
 // ============================================================================
@@ -146,42 +528,60 @@ export type BatchEmbedFunction = (texts: string[]) => Promise<(number[] | null)[
 
 /**
  * Process extracted text incrementally:
- * 1. Parse into pages
+ * 1. Parse into pages (or use the extractor's real pages)
  * 2. Chunk each page
  * 3. Embed each chunk
  * 4. Store immediately
  * 
- * @param text - Full extracted text (with page markers if available)
+ * @param input - Per-page text from the extractor, or full text (with page markers if available)
  * @param documentId - Document ID for vector metadata
  * @param source - Extraction source (pdf2json, ocr, hybrid)
  * @param embedFn - Function to generate embeddings
  * @param storeFn - Function to store a chunk with embedding
  * @param onProgress - Progress callback
+ * @param documentName - Prefixed to the first chunk for searchability
+ * @param resume - Skip already indexed pages and checkpoint completed ones
  */
 export async function vectorizeIncrementally(
-    text: string,
+    input: string | PageText[],
     documentId: string,
-    source: 'pdf2json' | 'ocr' | 'hybrid',
+    source: ExtractionSource,
     embedFn: EmbedFunction,
     storeFn: (chunk: ChunkRecord) => Promise<boolean>,
     config: VectorizationConfig = DEFAULT_VECTORIZATION_CONFIG,
     onProgress?: (progress: VectorizationProgress) => void,
-    documentName?: string  // Optional document name for better searchability
+    documentName?: string,  // Optional document name for better searchability
+    resume: ResumeOptions = {}
 ): Promise<VectorizationResult> {
     const startTime = Date.now();
 
     console.log(`[Vectorize] START: doc=${documentId}, source=${source}`);
 
     try {
-        // Step 1: Split text into pages (or treat as single page if no markers)
-        const pages = splitIntoPages(text, source);
-        const totalPages = pages.length;
-
-        console.log(`[Vectorize] Split into ${totalPages} pages`);
-
-        let chunksCreated = 0;
+        // Step 1: Use real page boundaries when the extractor provides them,
+        // otherwise split text into pages (or treat as single page if no markers)
+        // (Markdown text stays whole so sections and fences are never cut by pseudo-pages)
+        const allPages = typeof input === 'string'
+            ? config.chunkingStrategy === 'markdown'
+                ? [{ pageNumber: 1, text: input, source }]
+                : splitIntoPages(input, source)
+            : input.filter(p => p.text.trim().length > 10);
+        const totalPages = allPages.length;
+        const firstPageNumber = allPages[0]?.pageNumber;
+
+        // Resuming: pages up to the checkpoint are already stored
+        const afterPage = resume.afterPage ?? 0;
+        const pages = allPages.filter(p => p.pageNumber > afterPage);
+
+        console.log(`[Vectorize] ${typeof input === 'string' ? 'Split into' : 'Received'} ${totalPages} pages${pages.length < totalPages ? `, resuming after page ${afterPage}` : ''}`);
+
+        let chunksCreated = resume.chunksStored ?? 0;
         let chunksEmbedded = 0;
-        let pagesProcessed = 0;
+        let pagesProcessed = totalPages - pages.length;
+        let lastCompletedPage = resume.afterPage;
+        let truncated = false;
+        let failedChunks = 0;
+        let checkpointing = true;   // Only advance the checkpoint while every earlier page is complete
 
         // Step 2: Process each page incrementally
         for (const pageText of pages) {
@@ -198,13 +598,14 @@ export async function vectorizeIncrementally(
             // Chunk this page
             const chunks = await chunkPage(pageText, config);
 
-            // Set document ID and name on each chunk
+            // Set document ID, name and deterministic chunk ID on each chunk
             chunks.forEach((c, idx) => {
                 c.documentId = documentId;
                 c.documentName = documentName;
+                c.chunkId = generateChunkId(documentId, c.page, c.chunkIndex);
 
                 // Prepend document name to first chunk of first page for searchability
-                if (pagesProcessed === 0 && idx === 0 && documentName) {
+                if (pageText.pageNumber === firstPageNumber && idx === 0 && documentName) {
                     c.content = `Document: ${documentName}\\n\\n${c.content}`;
                 }
             });
@@ -214,8 +615,9 @@ export async function vectorizeIncrementally(
             if (chunksCreated > config.maxChunksPerDocument) {
                 console.log(`[Vectorize] Max chunks reached (${config.maxChunksPerDocument}), stopping at page ${pagesProcessed + 1}`);
                 const chunksToSkip = chunksCreated - config.maxChunksPerDocument;
-                chunks.splice(chunks.length - chunksToSkip, chunksToSkip);
+                chunks.splice(Math.max(0, chunks.length - chunksToSkip));
                 chunksCreated = config.maxChunksPerDocument;
+                truncated = true;
             }
 
             // Step 3: Embed in batches with rate limiting
@@ -232,6 +634,7 @@ export async function vectorizeIncrementally(
             }
 
             // Process chunks in batches with rate limiting
+            let pageChunksStored = 0;
             for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
                 const batch = chunks.slice(i, i + EMBED_BATCH_SIZE);
 
@@ -272,14 +675,35 @@ export async function vectorizeIncrementally(
                     });
 
                 const results = await Promise.all(storePromises);
-                chunksEmbedded += results.reduce((a: number, b: number) => a + b, 0 as number);
+                const stored = results.reduce((a: number, b: number) => a + b, 0 as number);
+                chunksEmbedded += stored;
+                pageChunksStored += stored;
             }
 
+            failedChunks += chunks.length - pageChunksStored;
             pagesProcessed++;
+
+            // Checkpoint: a resume can start after this page
+            if (checkpointing && pageChunksStored === chunks.length) {
+                lastCompletedPage = pageText.pageNumber;
+                if (resume.onPageComplete) {
+                    await resume.onPageComplete(pageText.pageNumber, {
+                        pagesProcessed,
+                        totalPages,
+                        chunksCreated,
+                        chunksEmbedded: chunksEmbedded + (resume.chunksStored ?? 0),
+                        phase: 'storing'
+                    });
+                }
+            } else {
+                checkpointing = false;
+            }
+
             console.log(`[Vectorize] Page ${pagesProcessed}/${totalPages}: ${chunks.length} chunks embedded`);
 
             // Stop if we hit max chunks
             if (chunksCreated >= config.maxChunksPerDocument) {
+                truncated = truncated || pagesProcessed < totalPages;
                 console.log(`[Vectorize] Hit max chunks limit (${config.maxChunksPerDocument}), stopping early`);
                 break;
             }
@@ -299,14 +723,21 @@ export async function vectorizeIncrementally(
 
         console.log(`[Vectorize] SUCCESS: ${chunksEmbedded} chunks in ${processingTimeMs}ms`);
 
+        // A resume with nothing left to do still counts the chunks stored earlier
+        const totalChunks = chunksEmbedded + (resume.chunksStored ?? 0);
+
         return {
-            success: chunksEmbedded > 0,
+            success: totalChunks > 0,
             documentId,
             totalPages,
-            totalChunks: chunksEmbedded,
+            totalChunks,
+            pagesProcessed,
+            lastCompletedPage,
+            truncated,
+            failedChunks,
             processingTimeMs,
-            userMessage: chunksEmbedded > 0
-                ? `Successfully indexed ${chunksEmbedded} text chunks from ${totalPages} pages`
+            userMessage: totalChunks > 0
+                ? `Successfully indexed ${totalChunks} text chunks from ${totalPages} pages`
                 : 'No chunks could be embedded'
         };
 
@@ -334,7 +765,7 @@ export async function vectorizeIncrementally(
  * Split text into pages
  * Detects page markers or treats as single page
  */
-function splitIntoPages(text: string, source: 'pdf2json' | 'ocr' | 'hybrid'): PageText[] {
+function splitIntoPages(text: string, source: ExtractionSource): PageText[] {
     // Check for common page markers
     const pageBreakPattern = /(?:\n\n---\s*Page\s*\d+\s*---\n\n|\f)/gi;
 
@@ -407,8 +838,9 @@ function splitIntoPages(text: string, source: 'pdf2json' | 'ocr' | 'hybrid'): Pa
 // ============================================================================
 
 /**
- * Generate unique chunk ID for vector store
+ * Generate unique chunk ID for vector store (chunks.chunk_id)
  * Format: documentId:page:chunkIndex
+ * Re-running a page produces the same IDs, so stores upsert instead of duplicating.
  */
 export function generateChunkId(documentId: string, page: number, chunkIndex: number): string {
     return `${documentId}:${page}:${chunkIndex}`;
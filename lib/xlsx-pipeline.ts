@@ -0,0 +1,215 @@
+/**
+ * XLSX Pipeline
+ *
+ * Spreadsheet ingestion, one logical section per sheet:
+ * - Sheets in workbook order; empty sheets skipped
+ * - The first non-empty row of a sheet is its header
+ * - Rows are grouped like CSV (see csv-pipeline.ts): whole rows per page,
+ *   header repeated, so every chunk keeps its column names
+ * - Sheet number/name and the spreadsheet row range recorded in page metadata
+ * - Cell values: shared and inline strings, booleans, formula results;
+ *   numbers in date formats become ISO dates
+ */
+
+import type { HTMLElement } from 'node-html-parser';
+import { openPackage, readRelationships, OoxmlPackage } from './ooxml';
+import { groupTableRows, normalizeHeader, CsvConfig, DEFAULT_CSV_CONFIG } from './csv-pipeline';
+import type { ExtractedPage } from './pdf-pipeline';
+
+export interface XlsxSheetInfo {
+    name: string;
+    rowCount: number;           // Data rows (header excluded)
+    columns: string[];
+}
+
+export interface XlsxExtractionResult {
+    pages: ExtractedPage[];     // Row groups, sheet by sheet
+    sheets: XlsxSheetInfo[];    // Non-empty sheets, in workbook order
+}
+
+// Built-in number formats that display dates/times (ECMA-376 18.8.30)
+const BUILT_IN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+// Date/time tokens in a custom format code, ignoring quoted text, escapes and colors
+const DATE_FORMAT_TOKENS = /[dmyhs]/i;
+
+// ============================================================================
+// Workbook Parts
+// ============================================================================
+
+async function readSharedStrings(pkg: OoxmlPackage, path: string | undefined): Promise<string[]> {
+    const part = path ? await pkg.read(path) : null;
+    if (!part) return [];
+
+    // Rich text is split into runs (<r><t>); phonetic hints (<rPh>) aren't part of the value
+    return part.getElementsByTagName('si').map(item => item.childNodes
+        .map(node => {
+            const el = node as HTMLElement;
+            if (el.rawTagName === 't') return el.text;
+            if (el.rawTagName === 'r') return el.getElementsByTagName('t').map(t => t.text).join('');
+            return '';
+        })
+        .join(''));
+}
+
+/**
+ * Cell style indexes (the `s` attribute) whose number format is a date
+ */
+async function readDateStyles(pkg: OoxmlPackage, path: string | undefined): Promise<Set<number>> {
+    const styles = path ? await pkg.read(path) : null;
+    const dateStyles = new Set<number>();
+    if (!styles) return dateStyles;
+
+    const customDateFormats = new Set(styles.getElementsByTagName('numFmt')
+        .filter(fmt => {
+            const code = (fmt.getAttribute('formatCode') || '').replace(/"[^"]*"|\\.|\[[^\]]*\]/g, '');
+            return DATE_FORMAT_TOKENS.test(code);
+        })
+        .map(fmt => Number(fmt.getAttribute('numFmtId'))));
+
+    const cellXfs = styles.getElementsByTagName('cellXfs')[0];
+    (cellXfs?.getElementsByTagName('xf') || []).forEach((xf, idx) => {
+        const formatId = Number(xf.getAttribute('numFmtId') || 0);
+        if (BUILT_IN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) dateStyles.add(idx);
+    });
+    return dateStyles;
+}
+
+// Serial day numbers count from 1899-12-30 (1900 system, incl. the 1900 leap-year bug) or 1904-01-01
+function serialToDate(serial: number, date1904: boolean): string {
+    const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+    const date = new Date(epoch + Math.round(serial * 86_400_000));
+    const iso = date.toISOString();
+    return serial % 1 === 0 ? iso.slice(0, 10) : iso.slice(0, 19).replace('T', ' ');
+}
+
+// "BC12" → 54 (0-based)
+function columnIndex(reference: string): number {
+    const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A';
+    return [...letters].reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+}
+
+// ============================================================================
+// Sheets
+// ============================================================================
+
+interface SheetContext {
+    sharedStrings: string[];
+    dateStyles: Set<number>;
+    date1904: boolean;
+}
+
+function cellValue(cell: HTMLElement, context: SheetContext): string {
+    const type = cell.getAttribute('t');
+    const value = cell.getElementsByTagName('v')[0]?.text ?? '';
+
+    switch (type) {
+        case 's':
+            return context.sharedStrings[Number(value)] ?? '';
+        case 'inlineStr':
+            return cell.getElementsByTagName('t').map(t => t.text).join('');
+        case 'b':
+            return value === '1' ? 'TRUE' : value === '0' ? 'FALSE' : '';
+        case 'str':
+        case 'e':
+            return value;
+        default: {
+            const style = Number(cell.getAttribute('s') || 0);
+            if (value !== '' && context.dateStyles.has(style) && !isNaN(Number(value))) {
+                return serialToDate(Number(value), context.date1904);
+            }
+            return value;
+        }
+    }
+}
+
+/**
+ * Non-empty rows of a sheet with their spreadsheet row numbers
+ */
+function readSheetRows(sheet: HTMLElement, context: SheetContext): { rowNumber: number; cells: string[] }[] {
+    const rows: { rowNumber: number; cells: string[] }[] = [];
+
+    sheet.getElementsByTagName('row').forEach((row, idx) => {
+        const cells: string[] = [];
+        row.getElementsByTagName('c').forEach((cell, cellIdx) => {
+            const reference = cell.getAttribute('r');
+            cells[reference ? columnIndex(reference) : cellIdx] = cellValue(cell, context).trim();
+        });
+
+        const values = Array.from(cells, v => v ?? '');
+        if (values.some(v => v !== '')) {
+            rows.push({ rowNumber: Number(row.getAttribute('r')) || idx + 1, cells: values });
+        }
+    });
+    return rows;
+}
+
+// ============================================================================
+// Main Extraction
+// ============================================================================
+
+export async function extractXlsx(buffer: Buffer, config: CsvConfig = DEFAULT_CSV_CONFIG): Promise<XlsxExtractionResult> {
+    const startTime = Date.now();
+    const pkg = await openPackage(buffer, 'Excel');
+
+    const workbookPath = 'xl/workbook.xml';
+    const workbook = await pkg.read(workbookPath);
+    if (!workbook) {
+        throw new Error('This file is not a valid Excel file (workbook part missing).');
+    }
+
+    const rels = await readRelationships(pkg, workbookPath);
+    const relOfType = (suffix: string) => Array.from(rels.values()).find(rel => rel.type.endsWith(suffix))?.target;
+    const workbookPr = workbook.getElementsByTagName('workbookPr')[0];
+
+    const context: SheetContext = {
+        sharedStrings: await readSharedStrings(pkg, relOfType('/sharedStrings')),
+        dateStyles: await readDateStyles(pkg, relOfType('/styles')),
+        date1904: ['1', 'true'].includes(workbookPr?.getAttribute('date1904') || ''),
+    };
+
+    const pages: ExtractedPage[] = [];
+    const sheets: XlsxSheetInfo[] = [];
+    const sheetRefs = workbook.getElementsByTagName('sheet');
+
+    for (const [idx, sheetRef] of sheetRefs.entries()) {
+        const sheetName = sheetRef.getAttribute('name') || `Sheet${idx + 1}`;
+        const target = rels.get(sheetRef.getAttribute('r:id') || '')?.target;
+        const sheet = target ? await pkg.read(target) : null; // Chart sheets have no worksheet part
+        if (!sheet) continue;
+
+        const [header, ...rows] = readSheetRows(sheet, context);
+        if (!header) continue;
+
+        const width = rows.reduce((max, r) => Math.max(max, r.cells.length), header.cells.length);
+        const columns = normalizeHeader(Array.from({ length: width }, (_, i) => header.cells[i] || ''));
+        const values = rows.map(r => columns.map((_, i) => r.cells[i] || ''));
+        const sheetNumber = idx + 1;
+
+        sheets.push({ name: sheetName, rowCount: rows.length, columns });
+
+        // A header-only sheet still documents its columns
+        const groups = rows.length > 0
+            ? groupTableRows(columns, values, config)
+            : [{ text: `Columns: ${columns.join(', ')}`, start: 0, end: 0 }];
+
+        for (const group of groups) {
+            pages.push({
+                pageNumber: pages.length + 1,
+                text: `## Sheet: ${sheetName}\n\n${group.text}`,
+                source: 'xlsx',
+                metadata: {
+                    sheet: sheetNumber,
+                    sheetName,
+                    ...(group.end > group.start
+                        ? { rowStart: rows[group.start].rowNumber, rowEnd: rows[group.end - 1].rowNumber }
+                        : {}),
+                },
+            });
+        }
+    }
+
+    console.log(`[XlsxPipeline] ${sheets.length} of ${sheetRefs.length} sheets, ${pages.length} row groups in ${Date.now() - startTime}ms`);
+
+    return { pages, sheets };
+}
@@ -0,0 +1,185 @@
+/**
+ * ZIP Pipeline
+ *
+ * Archive ingestion (a zip of contracts, a docs export...):
+ * - Guardrails before anything is decompressed: archive size, entry count
+ * - Entries are decompressed one at a time, with per-entry and total
+ *   uncompressed size limits enforced while streaming (zip bombs never
+ *   reach memory in full)
+ * - Folders, OS metadata (__MACOSX, .DS_Store) and hidden files are skipped;
+ *   nested archives are reported, not expanded
+ *
+ * Each entry then goes through the extractor registry like a single upload.
+ */
+
+import JSZip from 'jszip';
+import { DEFAULT_CONFIG } from './pdf-pipeline';
+import type { ExtractorInput } from './extractors';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export interface ZipConfig {
+    maxSizeBytes: number;       // Archive itself
+    maxEntries: number;         // Files indexed per archive
+    maxEntryBytes: number;      // Uncompressed size of one entry
+    maxTotalBytes: number;      // Uncompressed size of all entries
+}
+
+export const DEFAULT_ZIP_CONFIG: ZipConfig = {
+    maxSizeBytes: DEFAULT_CONFIG.maxSizeBytes,   // Same as a single upload (50MB)
+    maxEntries: 200,
+    maxEntryBytes: DEFAULT_CONFIG.maxSizeBytes,  // Each entry could have been uploaded on its own
+    maxTotalBytes: 250 * 1024 * 1024,            // 250MB decompressed
+};
+
+// Formats that are zip packages (EPUB, PPTX, XLSX) carry many small parts (images, fonts, styles)
+export const PACKAGE_ZIP_CONFIG: ZipConfig = {
+    ...DEFAULT_ZIP_CONFIG,
+    maxEntries: 5000,
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ZipEntry extends ExtractorInput {
+    path: string;               // Path inside the archive, e.g. contracts/2024/acme.pdf
+    read: () => Promise<Buffer>; // Decompress (rejects past the size limits)
+}
+
+export interface SkippedZipEntry {
+    path: string;
+    reason: string;
+}
+
+export interface ZipListing {
+    success: boolean;
+    entries: ZipEntry[];        // In archive order
+    skipped: SkippedZipEntry[];
+    userMessage: string;
+    failureReason?: 'TOO_LARGE' | 'TOO_MANY_ENTRIES' | 'ENCRYPTED' | 'CORRUPTED' | 'EMPTY';
+}
+
+const USER_MESSAGES = {
+    TOO_LARGE: (max: number) => `Archive exceeds the maximum allowed size (${max / 1024 / 1024}MB).`,
+    TOO_MANY_ENTRIES: (count: number, max: number) => `Archive contains ${count} files. Maximum is ${max}.`,
+    ENCRYPTED: 'This archive is password-protected and cannot be processed.',
+    CORRUPTED: 'This file is not a valid ZIP archive or is corrupted.',
+    EMPTY: 'This archive contains no files to index.',
+    ENTRY_TOO_LARGE: (max: number) => `File exceeds the maximum size (${max / 1024 / 1024}MB) once decompressed.`,
+    TOTAL_TOO_LARGE: (max: number) => `Skipped: the archive exceeds ${max / 1024 / 1024}MB once decompressed.`,
+};
+
+const ZIP_EXTENSIONS = /\.zip$/i;
+const ZIP_TYPES = ['application/zip', 'application/x-zip-compressed', 'application/x-zip'];
+
+// OS metadata and hidden files carry nothing worth indexing
+const IGNORED_PATH = /(^|\/)(__MACOSX|\.[^/]*)(\/|$)|(^|\/)(Thumbs\.db|desktop\.ini)$/i;
+
+export function isZipFile(input: ExtractorInput): boolean {
+    return ZIP_TYPES.includes(input.type) || ZIP_EXTENSIONS.test(input.name);
+}
+
+// ============================================================================
+// Listing
+// ============================================================================
+
+/**
+ * Open an archive and list the entries to index. Nothing is decompressed yet.
+ */
+export async function openZip(buffer: Buffer, config: ZipConfig = DEFAULT_ZIP_CONFIG): Promise<ZipListing> {
+    const fail = (failureReason: ZipListing['failureReason'], userMessage: string): ZipListing =>
+        ({ success: false, entries: [], skipped: [], userMessage, failureReason });
+
+    if (buffer.length > config.maxSizeBytes) {
+        return fail('TOO_LARGE', USER_MESSAGES.TOO_LARGE(config.maxSizeBytes));
+    }
+
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(buffer);
+    } catch (error) {
+        const message = (error as Error).message || '';
+        console.error('[ZipPipeline] Failed to open archive:', message);
+        return /encrypted/i.test(message)
+            ? fail('ENCRYPTED', USER_MESSAGES.ENCRYPTED)
+            : fail('CORRUPTED', USER_MESSAGES.CORRUPTED);
+    }
+
+    const files = Object.values(zip.files).filter(f => !f.dir && !IGNORED_PATH.test(f.name));
+    const skipped: SkippedZipEntry[] = [];
+    const indexable = files.filter(f => {
+        if (ZIP_EXTENSIONS.test(f.name)) {
+            skipped.push({ path: f.name, reason: 'Nested archives are not expanded' });
+            return false;
+        }
+        return true;
+    });
+
+    if (indexable.length > config.maxEntries) {
+        return fail('TOO_MANY_ENTRIES', USER_MESSAGES.TOO_MANY_ENTRIES(indexable.length, config.maxEntries));
+    }
+    if (indexable.length === 0) {
+        return { ...fail('EMPTY', USER_MESSAGES.EMPTY), skipped };
+    }
+
+    // Shared across entries: the total limit covers everything decompressed so far
+    const budget = { remaining: config.maxTotalBytes };
+
+    const entries: ZipEntry[] = indexable.map(file => ({
+        path: file.name,
+        name: file.name.split('/').pop() || file.name,
+        type: '',                           // Matched by extension
+        read: () => readEntry(file, config, budget),
+    }));
+
+    console.log(`[ZipPipeline] ${entries.length} entries, ${skipped.length} skipped`);
+
+    return {
+        success: true,
+        entries,
+        skipped,
+        userMessage: `${entries.length} files found`,
+    };
+}
+
+// ============================================================================
+// Decompression
+// ============================================================================
+
+/**
+ * Stream one entry into memory, stopping as soon as a limit is exceeded
+ * (the sizes in the zip headers can't be trusted)
+ */
+function readEntry(file: JSZip.JSZipObject, config: ZipConfig, budget: { remaining: number }): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const stream = file.nodeStream('nodebuffer');
+        const chunks: Buffer[] = [];
+        let size = 0;
+        let settled = false;
+
+        const stop = (error: Error) => {
+            if (settled) return;
+            settled = true;
+            stream.pause();
+            stream.removeAllListeners('data');
+            reject(error);
+        };
+
+        stream.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > config.maxEntryBytes) return stop(new Error(USER_MESSAGES.ENTRY_TOO_LARGE(config.maxEntryBytes)));
+            if (size > budget.remaining) return stop(new Error(USER_MESSAGES.TOTAL_TOO_LARGE(config.maxTotalBytes)));
+            chunks.push(chunk);
+        });
+        stream.on('error', (error: Error) => stop(error));
+        stream.on('end', () => {
+            if (settled) return;
+            settled = true;
+            budget.remaining -= size;
+            resolve(Buffer.concat(chunks));
+        });
+    });
+}
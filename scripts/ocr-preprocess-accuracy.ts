@@ -0,0 +1,201 @@
+#!/usr/bin/env node
+
+/**
+ * OCR preprocessing accuracy check
+ *
+ * Renders fixture texts as degraded "phone scans" (skew, uneven lighting,
+ * speckle, dark borders), OCRs each with preprocessing off and on, and reports
+ * character accuracy against the ground truth.
+ *
+ * Real scans can be added as fixtures: pass a directory containing
+ * `<name>.png|jpg` images next to `<name>.txt` ground-truth files.
+ *
+ *   npm run check:ocr-preprocess [-- fixtures-dir]
+ *
+ * Needs the `canvas` native binding (prebuilt, or built against cairo/pango);
+ * Tesseract's English data is downloaded on the first run.
+ *
+ * Exits non-zero if preprocessing lowers mean accuracy.
+ */
+
+import fs from "fs";
+import path from "path";
+import { createCanvas } from "canvas";
+import { performImageOCR, DEFAULT_OCR_CONFIG } from "../lib/ocr-pipeline";
+
+interface Fixture {
+    name: string;
+    text: string;
+    image: Buffer;
+}
+
+interface Distortion {
+    rotateDegrees: number;
+    lighting: number;   // 0..1 darkening across the page
+    speckle: number;    // Fraction of pixels turned to noise
+    border: number;     // Dark border width (px)
+}
+
+const SAMPLE_TEXT = [
+    "The quarterly report shows revenue of 4,218 units across",
+    "three regions. Shipping delays in March were resolved by",
+    "moving inventory to the northern warehouse. Customer",
+    "satisfaction rose from 71% to 84% after the new returns",
+    "policy took effect on 1 April. Next review: 30 June.",
+].join("\n");
+
+const GENERATED: { name: string; distortion: Distortion }[] = [
+    { name: "clean", distortion: { rotateDegrees: 0, lighting: 0, speckle: 0, border: 0 } },
+    { name: "skew-4", distortion: { rotateDegrees: 4, lighting: 0, speckle: 0, border: 0 } },
+    { name: "skew-9", distortion: { rotateDegrees: -9, lighting: 0, speckle: 0, border: 0 } },
+    { name: "shadow", distortion: { rotateDegrees: 0, lighting: 0.7, speckle: 0, border: 0 } },
+    { name: "speckle", distortion: { rotateDegrees: 0, lighting: 0, speckle: 0.03, border: 0 } },
+    { name: "phone-photo", distortion: { rotateDegrees: 6, lighting: 0.5, speckle: 0.01, border: 40 } },
+];
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function renderFixture(text: string, distortion: Distortion): Buffer {
+    const width = 1600;
+    const height = 900;
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext("2d");
+
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, width, height);
+
+    // Text, rotated about the page centre
+    ctx.save();
+    ctx.translate(width / 2, height / 2);
+    ctx.rotate((distortion.rotateDegrees * Math.PI) / 180);
+    ctx.fillStyle = "#1a1a1a";
+    ctx.font = "34px sans-serif";
+    text.split("\n").forEach((line, i) => ctx.fillText(line, -width / 2 + 140, -height / 2 + 220 + i * 60));
+    ctx.restore();
+
+    // Uneven lighting: darken towards the right edge
+    if (distortion.lighting > 0) {
+        const gradient = ctx.createLinearGradient(0, 0, width, 0);
+        gradient.addColorStop(0, "rgba(0,0,0,0)");
+        gradient.addColorStop(1, `rgba(40,30,20,${distortion.lighting})`);
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, width, height);
+    }
+
+    // Speckle noise (deterministic so runs are comparable)
+    if (distortion.speckle > 0) {
+        const imageData = ctx.getImageData(0, 0, width, height);
+        let seed = 42;
+        const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+        for (let i = 0; i < imageData.data.length; i += 4) {
+            if (random() < distortion.speckle) {
+                const value = random() < 0.5 ? 0 : 255;
+                imageData.data[i] = imageData.data[i + 1] = imageData.data[i + 2] = value;
+            }
+        }
+        ctx.putImageData(imageData, 0, 0);
+    }
+
+    // Dark border, as when the page doesn't fill the photo
+    if (distortion.border > 0) {
+        ctx.fillStyle = "#202020";
+        ctx.fillRect(0, 0, width, distortion.border);
+        ctx.fillRect(0, height - distortion.border, width, distortion.border);
+        ctx.fillRect(0, 0, distortion.border, height);
+        ctx.fillRect(width - distortion.border, 0, distortion.border, height);
+    }
+
+    return canvas.toBuffer("image/png");
+}
+
+function loadFixtures(dir?: string): Fixture[] {
+    const fixtures: Fixture[] = GENERATED.map(({ name, distortion }) => ({
+        name,
+        text: SAMPLE_TEXT,
+        image: renderFixture(SAMPLE_TEXT, distortion),
+    }));
+
+    if (dir) {
+        for (const file of fs.readdirSync(dir)) {
+            if (!/\.(png|jpe?g)$/i.test(file)) continue;
+            const truthPath = path.join(dir, file.replace(/\.[^.]+$/, ".txt"));
+            if (!fs.existsSync(truthPath)) continue;
+            fixtures.push({
+                name: file,
+                text: fs.readFileSync(truthPath, "utf-8"),
+                image: fs.readFileSync(path.join(dir, file)),
+            });
+        }
+    }
+
+    return fixtures;
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+function normalize(text: string): string {
+    return text.replace(/\s+/g, " ").trim();
+}
+
+function levenshtein(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// 1 - character error rate, floored at 0
+function characterAccuracy(recognized: string, truth: string): number {
+    const expected = normalize(truth);
+    if (!expected) return 0;
+    return Math.max(0, 1 - levenshtein(normalize(recognized), expected) / expected.length);
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function recognize(image: Buffer, preprocess: boolean): Promise<string> {
+    const result = await performImageOCR(image, { ...DEFAULT_OCR_CONFIG, language: "eng", preprocess });
+    return result.success ? result.text : "";
+}
+
+async function main() {
+    const fixtures = loadFixtures(process.argv[2]);
+    const rows: { fixture: string; raw: number; preprocessed: number }[] = [];
+
+    for (const fixture of fixtures) {
+        const raw = characterAccuracy(await recognize(fixture.image, false), fixture.text);
+        const preprocessed = characterAccuracy(await recognize(fixture.image, true), fixture.text);
+        rows.push({ fixture: fixture.name, raw, preprocessed });
+    }
+
+    const mean = (key: "raw" | "preprocessed") => rows.reduce((sum, r) => sum + r[key], 0) / rows.length;
+    const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+    console.table(rows.map(r => ({ fixture: r.fixture, raw: percent(r.raw), preprocessed: percent(r.preprocessed) })));
+    console.log(`Mean character accuracy: raw ${percent(mean("raw"))}, preprocessed ${percent(mean("preprocessed"))}`);
+
+    if (mean("preprocessed") < mean("raw")) {
+        console.error("Preprocessing lowered OCR accuracy");
+        process.exit(1);
+    }
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
@@ -0,0 +1,163 @@
+#!/usr/bin/env node
+
+/**
+ * URL ingest check
+ *
+ * Serves fixtures from a local HTTP server (a saved article, redirects, a
+ * gzip-encoded page, an oversized body, a server that never answers) and checks
+ * what fetchUrl makes of each, then checks that the private-network guard
+ * refuses the same server when it is not explicitly allowed.
+ *
+ *   npm run check:url-fetch
+ *
+ * Exits non-zero if any check fails.
+ */
+
+import http from "http";
+import zlib from "zlib";
+import { AddressInfo } from "net";
+import { fetchUrl, isPrivateAddress, FetchedUrl, DEFAULT_URL_FETCH_CONFIG, UrlFetchConfig } from "../lib/url-pipeline";
+import { extractDocument } from "../lib/extractors";
+
+const ARTICLE = `<!DOCTYPE html><html><head><title>Fixture Article</title><link rel="canonical" href="/articles/fixture"></head>
+<body><nav><a href="/">Home</a> <a href="/about">About</a></nav>
+<article><h1>Fixture Article</h1><p>${"Local fixture text, served over plain HTTP, for the URL ingest check. ".repeat(6)}</p></article>
+<footer>Copyright, all rights reserved.</footer></body></html>`;
+
+const MAX_BYTES = 64 * 1024;
+
+// ============================================================================
+// Fixture Server
+// ============================================================================
+
+function startFixtureServer(): Promise<http.Server> {
+    const server = http.createServer((req, res) => {
+        switch (req.url) {
+            case "/article":
+                res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+                return res.end(ARTICLE);
+            case "/gzip":
+                res.writeHead(200, { "Content-Type": "text/html", "Content-Encoding": "gzip" });
+                return res.end(zlib.gzipSync(ARTICLE));
+            case "/moved":
+                res.writeHead(301, { Location: "/article" });
+                return res.end();
+            case "/loop":
+                res.writeHead(302, { Location: "/loop" });
+                return res.end();
+            case "/files/notes.md":
+                res.writeHead(200, { "Content-Type": "application/octet-stream" });
+                return res.end("# Notes\n\nPlain markdown served as a download.");
+            case "/huge":
+                // No Content-Length: the limit has to hold while streaming
+                res.writeHead(200, { "Content-Type": "text/plain" });
+                for (let i = 0; i < 4; i++) res.write(Buffer.alloc(MAX_BYTES / 2, "x"));
+                return res.end();
+            case "/bomb":
+                res.writeHead(200, { "Content-Type": "text/plain", "Content-Encoding": "gzip" });
+                return res.end(zlib.gzipSync(Buffer.alloc(MAX_BYTES * 4, "x")));
+            case "/hang":
+                return; // Never answers
+            default:
+                res.writeHead(404);
+                return res.end();
+        }
+    });
+    return new Promise(resolve => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+interface Check {
+    name: string;
+    run: () => Promise<string | null>; // Failure description, null if passed
+}
+
+const expectFailure = (result: FetchedUrl, reason: FetchedUrl["failureReason"]) =>
+    result.failureReason === reason ? null : `expected ${reason}, got ${result.failureReason || "success"}`;
+
+async function main() {
+    const server = await startFixtureServer();
+    const { port } = server.address() as AddressInfo;
+    const base = `http://127.0.0.1:${port}`;
+
+    const local: UrlFetchConfig = { ...DEFAULT_URL_FETCH_CONFIG, maxSizeBytes: MAX_BYTES, timeoutMs: 1000, allowPrivateNetwork: true };
+    const guarded: UrlFetchConfig = { ...local, allowPrivateNetwork: false };
+
+    const checks: Check[] = [
+        {
+            name: "HTML page → main content, title, canonical URL",
+            run: async () => {
+                const fetched = await fetchUrl(`${base}/article`, local);
+                if (!fetched.success) return fetched.userMessage;
+                const extraction = await extractDocument(fetched.buffer, fetched, { sourceUrl: fetched.url });
+                if (/Home|Copyright/.test(extraction.text)) return "navigation or footer kept";
+                if (extraction.metadata?.canonicalUrl !== `${base}/articles/fixture`) return `canonical URL ${extraction.metadata?.canonicalUrl}`;
+                return extraction.metadata?.title === "Fixture Article" ? null : `title ${extraction.metadata?.title}`;
+            },
+        },
+        {
+            name: "Redirect followed, final URL reported",
+            run: async () => {
+                const fetched = await fetchUrl(`${base}/moved`, local);
+                return fetched.url === `${base}/article` ? null : `final URL ${fetched.url}`;
+            },
+        },
+        {
+            name: "gzip-encoded body decoded",
+            run: async () => {
+                const fetched = await fetchUrl(`${base}/gzip`, local);
+                return fetched.buffer.toString("utf-8") === ARTICLE ? null : "body not decoded";
+            },
+        },
+        {
+            name: "Untyped download named and typed by its path",
+            run: async () => {
+                const fetched = await fetchUrl(`${base}/files/notes.md`, local);
+                return fetched.name === "notes.md" && fetched.type === "" ? null : `${fetched.name} (${fetched.type})`;
+            },
+        },
+        { name: "Redirect loop stopped", run: async () => expectFailure(await fetchUrl(`${base}/loop`, local), "TOO_MANY_REDIRECTS") },
+        { name: "Oversized body cut off", run: async () => expectFailure(await fetchUrl(`${base}/huge`, local), "TOO_LARGE") },
+        { name: "Decompression bomb cut off", run: async () => expectFailure(await fetchUrl(`${base}/bomb`, local), "TOO_LARGE") },
+        { name: "Unresponsive server times out", run: async () => expectFailure(await fetchUrl(`${base}/hang`, local), "TIMEOUT") },
+        { name: "HTTP errors reported", run: async () => expectFailure(await fetchUrl(`${base}/missing`, local), "HTTP_ERROR") },
+        { name: "Non-http schemes refused", run: async () => expectFailure(await fetchUrl("file:///etc/passwd", local), "INVALID_URL") },
+        { name: "Loopback IP refused", run: async () => expectFailure(await fetchUrl(`${base}/article`, guarded), "PRIVATE_ADDRESS") },
+        { name: "localhost refused (DNS)", run: async () => expectFailure(await fetchUrl(`http://localhost:${port}/article`, guarded), "PRIVATE_ADDRESS") },
+        {
+            name: "Private ranges classified",
+            run: async () => {
+                const blocked = ["10.1.2.3", "172.20.0.1", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0", "::1", "fd00::1", "fe80::1", "::ffff:127.0.0.1"];
+                const allowed = ["93.184.216.34", "1.1.1.1", "2606:4700:4700::1111"];
+                const wrong = [
+                    ...blocked.filter(ip => !isPrivateAddress(ip)),
+                    ...allowed.filter(ip => isPrivateAddress(ip)),
+                ];
+                return wrong.length === 0 ? null : `misclassified: ${wrong.join(", ")}`;
+            },
+        },
+    ];
+
+    let failures = 0;
+    for (const check of checks) {
+        const failure = await check.run();
+        if (failure) failures++;
+        console.log(`${failure ? "FAIL" : "ok  "} ${check.name}${failure ? ` - ${failure}` : ""}`);
+    }
+
+    server.closeAllConnections();
+    server.close();
+
+    if (failures > 0) {
+        console.error(`${failures} of ${checks.length} checks failed`);
+        process.exit(1);
+    }
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
@@ -2,14 +2,22 @@
 -- (Previous content preserved implicitly, adding the new function at the end)
 
 -- Create a function to search for documents
+-- (Return type changed to include document_id/metadata, so drop the old signature first)
+drop function if exists match_documents(vector, float, int);
+drop function if exists match_documents(vector, float, int, text);
+
 create or replace function match_documents (
   query_embedding vector(384),
   match_threshold float,
-  match_count int
+  match_count int,
+  filter_language text default null, -- Tesseract code (e.g. 'deu'); matches documents.metadata.languages
+  include_document_ids uuid[] default null -- Older document versions to search as well (only latest versions otherwise)
 )
 returns table (
   id uuid,
+  document_id uuid,
   content text,
+  metadata jsonb, -- Includes page (real PDF page number) and chunkIndex for citations
   similarity float
 )
 language plpgsql
@@ -19,12 +27,16 @@ begin
   return query
   select
     chunks.id,
+    chunks.document_id,
     chunks.content,
+    chunks.metadata,
     1 - (chunks.embedding <=> query_embedding) as similarity
   from chunks
   join documents on documents.id = chunks.document_id
   where 1 - (chunks.embedding <=> query_embedding) > match_threshold
   and documents.user_id = auth.uid() -- Critical: Only return chunks appearing in documents owned by the user
+  and (filter_language is null or documents.metadata->'languages' ? filter_language)
+  and (documents.is_latest or documents.id = any(include_document_ids))
   order by chunks.embedding <=> query_embedding
   limit match_count;
 end;
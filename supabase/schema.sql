@@ -9,9 +9,30 @@ create table documents (
   type text not null,
   url text, -- Optional: if you store the file in Supabase Storage
   metadata jsonb,
+  -- Ingestion inserts rows with their in-progress status; rows that predate status
+  -- tracking were already indexed, so the default is 'ready'
+  status text not null default 'ready'
+    check (status in ('pending', 'extracting', 'indexing', 'ready', 'partial', 'failed')),
+  total_pages int,
+  pages_indexed int not null default 0,
+  chunks_stored int not null default 0,
+  failure_reason text, -- Why indexing failed or is partial
+  status_updated_at timestamptz default now(), -- In-progress rows not updated for a while were interrupted
+  last_indexed_page int, -- Last page whose chunks are all stored (resume checkpoint)
+  indexing_source text, -- Extracted text kept in the private 'processing' bucket until indexing completes
+  file_hash text, -- SHA-256 of the uploaded bytes (duplicate detection)
+  text_hash text, -- SHA-256 of the normalized extracted text
+  version_group uuid, -- First version's id, shared by all versions (null: single version)
+  version int not null default 1,
+  is_latest boolean not null default true, -- Searched by default; older versions only when selected
+  archive_name text, -- Uploaded .zip this document was expanded from (its path in the archive is the name)
   created_at timestamptz default now()
 );
 
+create index documents_user_file_hash_idx on documents (user_id, file_hash);
+create index documents_user_text_hash_idx on documents (user_id, text_hash);
+create index documents_version_group_idx on documents (version_group);
+
 -- Enable RLS on documents
 alter table documents enable row level security;
 
@@ -33,9 +54,16 @@ on documents for delete
 to authenticated
 using (auth.uid() = user_id);
 
+-- Policy: Users can update their own documents (e.g. metadata after OCR review)
+create policy "Users can update own documents"
+on documents for update
+to authenticated
+using (auth.uid() = user_id);
+
 -- Create a table to store the chunks and their embeddings
 create table chunks (
   id uuid primary key default gen_random_uuid(),
+  chunk_id text unique, -- Deterministic documentId:page:chunkIndex, so re-runs upsert
   document_id uuid references documents(id) on delete cascade,
   content text,
   metadata jsonb,
@@ -71,7 +99,170 @@ with check (
   )
 );
 
+-- Policy: Users can update chunks of their own documents (upserts when indexing is resumed)
+create policy "Users can update own chunks"
+on chunks for update
+to authenticated
+using (
+  exists (
+    select 1 from documents
+    where documents.id = chunks.document_id
+    and documents.user_id = auth.uid()
+  )
+);
+
+-- Policy: Users can delete chunks of their own documents (e.g. re-embedding a corrected page)
+create policy "Users can delete own chunks"
+on chunks for delete
+to authenticated
+using (
+  exists (
+    select 1 from documents
+    where documents.id = chunks.document_id
+    and documents.user_id = auth.uid()
+  )
+);
+
 -- Create a bucket for raw file uploads (if needed)
 insert into storage.buckets (id, name, public)
 values ('uploads', 'uploads', true) -- Kept public for simplicity in MVP, or make private
 on conflict (id) do nothing;
+
+-- Private bucket for extracted text awaiting indexing and OCR job source PDFs
+-- (service role only: no storage policies, never public)
+insert into storage.buckets (id, name, public)
+values ('processing', 'processing', false)
+on conflict (id) do nothing;
+
+-- Private bucket for files shown next to their documents (uploaded images, OCR page previews).
+-- No policies: the server checks ownership and hands out signed URLs.
+insert into storage.buckets (id, name, public)
+values ('document-files', 'document-files', false)
+on conflict (id) do nothing;
+
+-- Async OCR jobs for large scanned PDFs (processed by a server-side worker)
+create table ocr_jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users not null default auth.uid(),
+  file_name text not null,
+  storage_path text not null, -- Source PDF in the private 'processing' bucket
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'completed', 'failed', 'cancelled')),
+  page_count int not null,
+  pages_completed int not null default 0,
+  attempts int not null default 0,
+  max_attempts int not null default 3,
+  last_error text,
+  language text not null default 'auto', -- Tesseract language(s); 'auto' replaced once detected
+  file_hash text, -- SHA-256 of the source PDF, copied to the document
+  encrypted boolean not null default false, -- Password-protected PDF (the password is never stored)
+  document_id uuid references documents(id) on delete set null, -- Set once indexed
+  created_at timestamptz default now(),
+  updated_at timestamptz default now() -- Doubles as worker heartbeat / claim token
+);
+
+create index ocr_jobs_status_idx on ocr_jobs (status, created_at);
+
+-- Enable RLS on ocr_jobs (the worker uses the service role)
+alter table ocr_jobs enable row level security;
+
+-- Policy: Users can view their own OCR jobs (status polling)
+create policy "Users can view own ocr jobs"
+on ocr_jobs for select
+to authenticated
+using (auth.uid() = user_id);
+
+-- Per-page OCR checkpoints: a retried job only OCRs pages missing here
+create table ocr_job_pages (
+  job_id uuid references ocr_jobs(id) on delete cascade,
+  page_number int not null,
+  text text not null,
+  confidence real,   -- Mean word confidence (0-100)
+  preview_path text, -- Rendered page in 'document-files' (low-confidence pages only)
+  created_at timestamptz default now(),
+  primary key (job_id, page_number)
+);
+
+alter table ocr_job_pages enable row level security;
+
+-- Parsed CSV rows for structured (filter/group/aggregate) queries in chat
+create table document_rows (
+  document_id uuid references documents(id) on delete cascade,
+  row_index int not null, -- 1-based, header excluded
+  data jsonb not null,    -- { column: value } typed per documents.metadata.schema
+  primary key (document_id, row_index)
+);
+
+alter table document_rows enable row level security;
+
+-- Policy: Users can view rows of their own documents
+create policy "Users can view own document rows"
+on document_rows for select
+to authenticated
+using (
+  exists (
+    select 1 from documents
+    where documents.id = document_rows.document_id
+    and documents.user_id = auth.uid()
+  )
+);
+
+-- Policy: Users can insert rows into their own documents
+create policy "Users can insert own document rows"
+on document_rows for insert
+to authenticated
+with check (
+  exists (
+    select 1 from documents
+    where documents.id = document_rows.document_id
+    and documents.user_id = auth.uid()
+  )
+);
+
+-- OCR'd pages with their confidence, for low-confidence review and correction
+create table document_pages (
+  document_id uuid references documents(id) on delete cascade,
+  page_number int not null,
+  text text not null,         -- Recognized text (replaced when the user corrects it)
+  confidence real,            -- Mean word confidence (0-100) from OCR
+  preview_path text,          -- Rendered page in 'document-files' (low-confidence pages only)
+  corrected boolean not null default false,
+  updated_at timestamptz default now(),
+  primary key (document_id, page_number)
+);
+
+alter table document_pages enable row level security;
+
+-- Policy: Users can view and correct pages of their own documents
+create policy "Users can view own document pages"
+on document_pages for select
+to authenticated
+using (
+  exists (
+    select 1 from documents
+    where documents.id = document_pages.document_id
+    and documents.user_id = auth.uid()
+  )
+);
+
+create policy "Users can insert own document pages"
+on document_pages for insert
+to authenticated
+with check (
+  exists (
+    select 1 from documents
+    where documents.id = document_pages.document_id
+    and documents.user_id = auth.uid()
+  )
+);
+
+create policy "Users can update own document pages"
+on document_pages for update
+to authenticated
+using (
+  exists (
+    select 1 from documents
+    where documents.id = document_pages.document_id
+    and documents.user_id = auth.uid()
+  )
+);